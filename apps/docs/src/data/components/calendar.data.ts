@@ -0,0 +1,54 @@
+import type {BvnComponentProps} from 'bootstrap-vue-next'
+import {type ComponentReference, type PropertyReference, StyleKind} from '../../types'
+import {buildCommonProps, calendarProps, pick} from '../../utils'
+
+export default {
+  load: (): ComponentReference[] => [
+    {
+      component: 'BCalendar',
+      styleSpec: {kind: StyleKind.BsvnClass},
+      sourcePath: '/BCalendar/BCalendar.vue',
+      props: {
+        '': {
+          ...calendarProps,
+          hideHeader: {
+            type: 'boolean',
+            default: false,
+            description: 'When set, the selected date is not displayed above the calendar',
+          },
+          ...pick(buildCommonProps(), ['ariaControls', 'id']),
+        } satisfies Record<keyof BvnComponentProps['BCalendar'], PropertyReference>,
+      },
+      emits: [
+        {
+          event: 'selected',
+          args: [
+            {
+              arg: 'value',
+              type: 'CalendarValue',
+              description: 'The new value',
+            },
+          ],
+          description: 'Emitted when the user selects a date',
+        },
+        {
+          event: 'update:model-value',
+          args: [
+            {
+              arg: 'value',
+              type: 'CalendarValue',
+              description: 'The new value',
+            },
+          ],
+          description: 'Emitted to update the v-model',
+        },
+      ],
+      slots: [
+        {
+          name: 'default',
+          description: 'Content to place below the calendar grid',
+        },
+      ],
+    },
+  ],
+}
@@ -10,19 +10,60 @@ export default {
       sourcePath: '/BForm/BForm.vue',
       props: {
         '': {
+          busy: {
+            type: 'boolean',
+            default: false,
+            description:
+              'Disables the form controls and buttons of the form. Set while a promise returned by the `submit` handler is pending (v-model)',
+          },
+          leaveGuard: {
+            type: 'boolean',
+            default: false,
+            description:
+              'When set, asks the user to confirm leaving the page while the form has unsaved changes',
+          },
           ...pick(buildCommonProps(), ['floating', 'id', 'novalidate', 'validated']),
         } satisfies Record<keyof BvnComponentProps['BForm'], PropertyReference>,
       },
       emits: [
         {
           event: 'submit',
-          description: 'Emitted when the form is submitted',
+          description:
+            'Emitted when the form is submitted and its rules are valid. When the handler returns a promise, the form is busy until it settles',
           args: [
             {
-              arg: 'submit',
+              arg: 'event',
               type: 'Event',
               description: 'Native submit event',
             },
+            {
+              arg: 'values',
+              type: 'FormValues',
+              description: 'The values of the named form controls, by name',
+            },
+          ],
+        },
+        {
+          event: 'submit-error',
+          description:
+            'Emitted when the `submit` handler throws or rejects. The form keeps its unsaved changes',
+          args: [
+            {
+              arg: 'error',
+              type: 'unknown',
+              description: 'The error thrown or rejected by the `submit` handler',
+            },
+          ],
+        },
+        {
+          event: 'update:busy',
+          description: 'Emitted when the `busy` model is changed',
+          args: [
+            {
+              arg: 'value',
+              type: 'boolean',
+              description: 'Whether the form is busy',
+            },
           ],
         },
       ],
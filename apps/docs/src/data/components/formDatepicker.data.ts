@@ -0,0 +1,100 @@
+import type {BvnComponentProps} from 'bootstrap-vue-next'
+import {type ComponentReference, type PropertyReference, StyleKind} from '../../types'
+import {buildCommonProps, calendarProps, dropdownProps, pick} from '../../utils'
+
+export default {
+  load: (): ComponentReference[] => [
+    {
+      component: 'BFormDatepicker',
+      styleSpec: {kind: StyleKind.BsvnClass},
+      sourcePath: '/BFormDatepicker/BFormDatepicker.vue',
+      props: {
+        '': {
+          ...calendarProps,
+          closeButton: {
+            type: 'boolean',
+            default: false,
+            description: 'When set, displays a button below the calendar that closes it',
+          },
+          dateFormatOptions: {
+            type: 'Intl.DateTimeFormatOptions',
+            default: "{year: 'numeric', month: 'long', day: 'numeric'}",
+            description: 'The `Intl.DateTimeFormat` options used to display the selected date',
+          },
+          labelCloseButton: {
+            type: 'string',
+            default: 'Close',
+            description: 'Label for the close button',
+          },
+          labelResetButton: {
+            type: 'string',
+            default: 'Reset',
+            description: 'Label for the reset button',
+          },
+          labelTodayButton: {
+            type: 'string',
+            default: 'Select today',
+            description: 'Label for the today button',
+          },
+          noCloseOnSelect: {
+            type: 'boolean',
+            default: false,
+            description:
+              'When set, the calendar stays open after a date, or both ends of a range, are selected',
+          },
+          placeholder: {
+            type: 'string',
+            default: undefined,
+            description:
+              'Text displayed when there is no value. Defaults to `label-no-date-selected`',
+          },
+          resetButton: {
+            type: 'boolean',
+            default: false,
+            description: 'When set, displays a button below the calendar that clears the value',
+          },
+          todayButton: {
+            type: 'boolean',
+            default: false,
+            description: 'When set, displays a button below the calendar that selects today',
+          },
+          ...pick(dropdownProps, ['menuClass', 'teleportDisabled', 'teleportTo']),
+          ...pick(buildCommonProps(), [
+            'ariaInvalid',
+            'form',
+            'id',
+            'name',
+            'placement',
+            'required',
+            'size',
+            'state',
+          ]),
+        } satisfies Record<keyof BvnComponentProps['BFormDatepicker'], PropertyReference>,
+      },
+      emits: [
+        {
+          event: 'selected',
+          args: [
+            {
+              arg: 'value',
+              type: 'CalendarValue',
+              description: 'The new value',
+            },
+          ],
+          description: 'Emitted when the user selects a date',
+        },
+        {
+          event: 'update:model-value',
+          args: [
+            {
+              arg: 'value',
+              type: 'CalendarValue',
+              description: 'The new value',
+            },
+          ],
+          description: 'Emitted to update the v-model',
+        },
+      ],
+    },
+  ],
+}
@@ -14,6 +14,11 @@ export default {
             default: '',
             description: "Value to set on the file input's `accept` attribute",
           },
+          browseText: {
+            type: 'string',
+            default: 'Browse',
+            description: 'Text of the browse button of the drop zone',
+          },
           capture: {
             type: "'boolean' | 'user' | 'environment'",
             default: false,
@@ -25,6 +30,28 @@ export default {
             default: false,
             description: 'Enable `directory` mode (on browsers that support it)',
           },
+          dropPlaceholder: {
+            type: 'string',
+            default: 'Drop files here',
+            description: 'Text displayed in the drop zone while files are dragged over it',
+          },
+          fileNameFormatter: {
+            type: '(file: Readonly<File>) => string',
+            default: undefined,
+            description:
+              'Formats the name of a file in the list of selected files and in the feedback. Defaults to the relative path of the file, or its name',
+          },
+          fileRemoveLabel: {
+            type: 'string',
+            default: 'Remove',
+            description:
+              'Label of the remove button of a selected file, followed by the name of the file',
+          },
+          invalidTypeText: {
+            type: 'string',
+            default: 'File type not accepted',
+            description: 'Feedback for the files that do not match `accept`',
+          },
           label: {
             type: 'string',
             default: '',
@@ -35,6 +62,27 @@ export default {
             default: undefined,
             description: 'Sets the styling for the label',
           },
+          maxFiles: {
+            type: 'Numberish',
+            default: undefined,
+            description:
+              'The maximum number of files in `multiple` mode. The files beyond it are rejected',
+          },
+          maxFilesText: {
+            type: 'string',
+            default: 'Too many files',
+            description: 'Feedback for the files beyond `max-files`',
+          },
+          maxSize: {
+            type: 'Numberish',
+            default: undefined,
+            description: 'The maximum size of a file, in bytes. Larger files are rejected',
+          },
+          maxSizeText: {
+            type: 'string',
+            default: 'File too large',
+            description: 'Feedback for the files larger than `max-size`',
+          },
           modelValue: {
             type: 'File[] | File | null',
             default: undefined,
@@ -48,9 +96,9 @@ export default {
               'When set, will allow multiple files to be selected. `v-model` will be an array',
           },
           noButton: {
-            type: 'boolean | null',
-            default: undefined,
-            description: 'hide the file input button',
+            type: 'boolean',
+            default: false,
+            description: 'Hides the browse button. The drop zone text still opens the file dialog',
           },
           noDrop: {
             type: 'boolean',
@@ -60,12 +108,24 @@ export default {
           noTraverse: {
             type: 'boolean',
             default: false,
-            description: 'Wether to returns files as a flat array when in `directory` mode',
+            description:
+              'When set, dropped directories are skipped instead of adding the files they contain',
+          },
+          placeholder: {
+            type: 'string',
+            default: 'No file chosen',
+            description: 'Text displayed in the drop zone when no file is selected',
+          },
+          readErrorText: {
+            type: 'string',
+            default: 'The dropped files could not be read',
+            description: 'Feedback for a drop whose directories can not be read',
           },
           ...pick(
             buildCommonProps({
               plain: {
-                description: "Don't add any additional styling or classes to the file input",
+                description:
+                  'Renders the native file input, without the drop zone and the list of selected files',
               },
             }),
             [
@@ -115,6 +175,27 @@ export default {
           description: '',
           scope: [],
         },
+        {
+          name: 'file-name',
+          description: 'Content of a selected file in the list of the drop zone',
+          scope: [
+            {
+              prop: 'file',
+              type: 'File',
+              description: 'The selected file',
+            },
+            {
+              prop: 'name',
+              type: 'string',
+              description: 'The name of the file, formatted with `file-name-formatter`',
+            },
+            {
+              prop: 'size',
+              type: 'string',
+              description: 'The size of the file, formatted in the largest unit',
+            },
+          ],
+        },
       ],
     },
   ],
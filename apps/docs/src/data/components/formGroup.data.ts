@@ -52,7 +52,8 @@ export default {
           invalidFeedback: {
             type: 'string',
             default: 'undefined',
-            description: 'Text to show when the form group has an invalid state',
+            description:
+              'Text to show when the form group has an invalid state. Defaults to the first error of the `rules` of the group or of its form control',
           },
           label: {
             type: 'string',
@@ -155,9 +156,13 @@ export default {
                   description:
                     'Disables the fieldset element, which in turn disables the form controls (on browsers that support disabled fieldsets). Has no effect if `label-for` is set',
                 },
+                rules: {
+                  description:
+                    'The validation rules of the value of the form control in the group. Accepts the same rules as the `rules` prop of `BFormInput`',
+                },
               })
             ),
-            ['ariaInvalid', 'disabled', 'id', 'state', 'tooltip']
+            ['ariaInvalid', 'disabled', 'id', 'rules', 'state', 'tooltip']
           ),
         } satisfies Record<keyof BvnComponentProps['BFormGroup'], PropertyReference>,
       },
@@ -9,6 +9,18 @@ export default {
       sourcePath: '/BFormInput/BFormInput.vue',
       props: {
         '': {
+          locale: {
+            type: 'string',
+            default: 'undefined',
+            description:
+              'The locale of the number in `numeric` mode. Defaults to the locale of the RTL plugin, then to the browser locale',
+          },
+          mask: {
+            type: 'InputMask',
+            default: 'undefined',
+            description:
+              'A pattern that masks the value as it is typed: `#` a digit, `A` a letter, `N` a letter or a digit, `X` any character. Or a function that receives the value and returns the pattern',
+          },
           max: {
             type: 'Numberish',
             default: 'undefined',
@@ -26,6 +38,24 @@ export default {
             default: "''",
             description: 'The current value of the input',
           },
+          noWheel: {
+            type: 'boolean',
+            default: false,
+            description:
+              'When set, the focused input is blurred on mousewheel, so the value of number-like inputs is not changed',
+          },
+          numberFormat: {
+            type: 'Readonly<Intl.NumberFormatOptions>',
+            default: 'undefined',
+            description:
+              'The options of the `Intl.NumberFormat` that formats the number in `numeric` mode, such as a currency or a percent style',
+          },
+          numeric: {
+            type: 'boolean',
+            default: false,
+            description:
+              'When set, the number is typed and displayed in the format of the locale, rounded to `step`, clamped to `min` and `max` on blur, and bound to `v-model` as a `number` or `null`',
+          },
           step: {
             type: 'Numberish',
             default: 'undefined',
@@ -37,6 +67,12 @@ export default {
             default: 'text',
             description: 'The type of input to render. See the docs for supported types',
           },
+          wheel: {
+            type: 'boolean',
+            default: false,
+            description:
+              'When set, the mousewheel steps the value of the focused input in `numeric` mode',
+          },
           ...pick(buildCommonProps(buildCommonProps()), [
             'ariaInvalid',
             'autocomplete',
@@ -54,6 +90,7 @@ export default {
             'plaintext',
             'readonly',
             'required',
+            'rules',
             'size',
             'state',
             'tooltip',
@@ -74,6 +111,22 @@ export default {
             },
           ],
         },
+        {
+          event: 'masked',
+          description: 'Emitted when the value changes while the `mask` prop is set',
+          args: [
+            {
+              arg: 'masked',
+              type: 'string',
+              description: 'The masked value, as displayed',
+            },
+            {
+              arg: 'unmasked',
+              type: 'string',
+              description: 'The characters of the value that fit the tokens of the mask',
+            },
+          ],
+        },
       ],
       slots: [],
     },
@@ -155,11 +155,29 @@ export default {
             description:
               'When set, enables removal of last tag in tags when user presses delete or backspace and the input is empty',
           },
+          restrictToSuggestions: {
+            type: 'boolean',
+            default: false,
+            description:
+              'When set, only tags that match the value or the text of a suggestion can be added',
+          },
           separator: {
             type: 'string | readonly string[]',
             default: undefined,
             description: 'Separator character(s) that will trigger a tag to be created',
           },
+          suggestions: {
+            type: 'readonly FormTagsSuggestion[] | FormTagsSuggestionsFn',
+            default: undefined,
+            description:
+              'The tags suggested in a listbox under the input, as strings or `{value, text}` options. A function is called with the typed text and returns the suggestions, or a promise of them',
+          },
+          suggestionsDebounce: {
+            type: 'Numberish',
+            default: 250,
+            description:
+              'The number of milliseconds to wait after the last keystroke before calling a `suggestions` function',
+          },
           tagClass: {
             type: 'ClassValue',
             default: undefined,
@@ -305,6 +323,11 @@ export default {
               type: 'string',
               description: "Value of the 'add-button-variant' prop",
             },
+            {
+              prop: 'addSuggestion',
+              type: '(option: SelectOption<string>) => void',
+              description: 'Method to add the value of a suggestion as a tag',
+            },
             {
               prop: 'addTag',
               type: '(tag?: string) => void',
@@ -444,6 +467,16 @@ export default {
               description:
                 "The contextual state of the component. Value of the 'state' prop. Possible values are true, false or null",
             },
+            {
+              prop: 'suggestions',
+              type: 'SelectOption<string>[]',
+              description: 'The suggestions that match the text of the input',
+            },
+            {
+              prop: 'suggestionsOpen',
+              type: 'boolean',
+              description: '`true` when the suggestions listbox is displayed',
+            },
             {
               prop: 'tagClass',
               type: 'ClassValue',
@@ -492,6 +525,12 @@ export default {
               type: 'string',
               description: 'Value of the tag',
             },
+            {
+              prop: 'text',
+              type: 'string',
+              description:
+                'Text of the tag. The text of the suggestion the tag was added from, otherwise its value',
+            },
             {
               prop: 'tagClass',
               type: 'ClassValue',
@@ -60,6 +60,7 @@ export default {
             'plaintext',
             'readonly',
             'required',
+            'rules',
             'size',
             'state',
           ]),
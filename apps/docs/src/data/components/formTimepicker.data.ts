@@ -0,0 +1,80 @@
+import type {BvnComponentProps} from 'bootstrap-vue-next'
+import {type ComponentReference, type PropertyReference, StyleKind} from '../../types'
+import {buildCommonProps, dropdownProps, pick, timeProps} from '../../utils'
+
+export default {
+  load: (): ComponentReference[] => [
+    {
+      component: 'BFormTimepicker',
+      styleSpec: {kind: StyleKind.BsvnClass},
+      sourcePath: '/BFormTimepicker/BFormTimepicker.vue',
+      props: {
+        '': {
+          ...timeProps,
+          closeButton: {
+            type: 'boolean',
+            default: false,
+            description:
+              'When set, displays a button below the spinbuttons that closes the dropdown',
+          },
+          labelCloseButton: {
+            type: 'string',
+            default: 'Close',
+            description: 'Label for the close button',
+          },
+          labelNowButton: {
+            type: 'string',
+            default: 'Select now',
+            description: 'Label for the now button',
+          },
+          labelResetButton: {
+            type: 'string',
+            default: 'Reset',
+            description: 'Label for the reset button',
+          },
+          nowButton: {
+            type: 'boolean',
+            default: false,
+            description:
+              'When set, displays a button below the spinbuttons that selects the current time',
+          },
+          placeholder: {
+            type: 'string',
+            default: undefined,
+            description:
+              'Text displayed when there is no value. Defaults to `label-no-time-selected`',
+          },
+          resetButton: {
+            type: 'boolean',
+            default: false,
+            description: 'When set, displays a button below the spinbuttons that clears the value',
+          },
+          ...pick(dropdownProps, ['menuClass', 'teleportDisabled', 'teleportTo']),
+          ...pick(buildCommonProps(), [
+            'ariaInvalid',
+            'form',
+            'id',
+            'name',
+            'placement',
+            'required',
+            'size',
+            'state',
+          ]),
+        } satisfies Record<keyof BvnComponentProps['BFormTimepicker'], PropertyReference>,
+      },
+      emits: [
+        {
+          event: 'update:model-value',
+          args: [
+            {
+              arg: 'value',
+              type: 'string | null',
+              description: 'The new value',
+            },
+          ],
+          description: 'Emitted to update the v-model',
+        },
+      ],
+    },
+  ],
+}
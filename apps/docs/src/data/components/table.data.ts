@@ -169,6 +169,18 @@ export default {
         type: '((item: TableItem | null, type: string) => string | any[] | null | undefined) | string | Record<PropertyKey, any> | any[]',
         default: undefined,
       },
+      tbodyTransitionHandlers: {
+        type: 'Readonly<Record<string, (el: Element, done: () => void) => void>>',
+        default: undefined,
+        description:
+          'Renders the tbody as a `TransitionGroup` with these event handlers, such as `enter` and `leave`',
+      },
+      tbodyTransitionProps: {
+        type: 'Readonly<TransitionGroupProps>',
+        default: undefined,
+        description:
+          'Renders the tbody as a `TransitionGroup` with these props, so the rows animate when they are added, removed or moved',
+      },
       tfootClass: {
         type: 'ClassValue',
         default: undefined,
@@ -185,6 +197,36 @@ export default {
         type: 'ClassValue',
         default: undefined,
       },
+      virtual: {
+        type: 'boolean',
+        default: false,
+        description:
+          'Only render the rows that are visible in the scroll container (plus `virtual-overscan` rows). The table is placed in a fixed height scroll container, see the `sticky-header` prop to control its height',
+      },
+      virtualOverscan: {
+        type: 'Numberish',
+        default: 10,
+        description:
+          'The number of rows rendered above and below the visible rows when `virtual` is set',
+      },
+      virtualRowHeight: {
+        type: 'Numberish',
+        default: 41,
+        description:
+          'The estimated height of a row in pixels when `virtual` is set. Rows are measured once rendered, the estimate is used for rows that have not been rendered yet',
+      },
+      reorderable: {
+        type: 'boolean',
+        default: false,
+        description:
+          'Renders a drag handle in the first cell of every row, which moves the row by dragging or with the arrow keys. The table emits `row-reordered`, the items are not changed',
+      },
+      frozenRows: {
+        type: 'Numberish',
+        default: 0,
+        description:
+          'The number of leading rows that stay visible below the header while the body scrolls. Requires `sticky-header`',
+      },
     } as const satisfies Record<
       Exclude<keyof BvnComponentProps['BTableLite'], keyof BvnComponentProps['BTableSimple']>,
       PropertyReference
@@ -207,10 +249,12 @@ export default {
             currentPage: {
               type: 'Numberish',
               default: 1,
+              description: 'The current page number to display (v-model)',
             },
             filter: {
               type: 'string',
               default: undefined,
+              description: 'The criteria for filtering. Empty clears the filter (v-model)',
             },
             filterFunction: {
               type: '(item: Readonly<Items>, filter: string | undefined) => boolean',
@@ -222,6 +266,71 @@ export default {
               type: 'string[]',
               default: undefined,
             },
+            filters: {
+              type: 'TableColumnFilters<Items>',
+              default: undefined,
+              description:
+                'Model of the per column filters, keyed by field key. See the Column filters section for the supported values',
+            },
+            groupBy: {
+              type: 'string | ((item: Items) => unknown)',
+              default: undefined,
+              description:
+                'Partitions the items into collapsible groups by the value of a field key, or the value returned by the function',
+            },
+            visibleFields: {
+              type: 'string[]',
+              default: undefined,
+              description:
+                'The keys of the fields that are displayed. Fields with `hideable: false` are always displayed. When `undefined` every field is displayed (v-model)',
+            },
+            fieldOrder: {
+              type: 'string[]',
+              default: undefined,
+              description:
+                'The keys of the fields in the order they are displayed. Fields that are missing are displayed after the ordered fields (v-model)',
+            },
+            columnWidths: {
+              type: 'Record<string, number>',
+              default: undefined,
+              description:
+                'The widths of the columns in pixels, keyed by the field key. Updated when a column is resized (v-model)',
+            },
+            reorderableColumns: {
+              type: 'boolean',
+              default: false,
+              description:
+                'Allows the columns to be reordered by dragging the header cells, which updates the `fieldOrder` model',
+            },
+            resizableColumns: {
+              type: 'boolean',
+              default: false,
+              description:
+                'Renders a resize handle on the edge of the header cells, which updates the `columnWidths` model. Can be overridden per field with `resizable`',
+            },
+            childrenField: {
+              type: 'string',
+              default: '_children',
+              description: 'The key of the items that holds the children of tree rows',
+            },
+            loadChildren: {
+              type: '(item: Items) => MaybePromise<Items[] | undefined>',
+              default: undefined,
+              description:
+                'Loads the children of a tree row when it is expanded for the first time',
+            },
+            treeSelectMode: {
+              type: "'independent' | 'descendants' | 'cascade'",
+              default: 'independent',
+              description:
+                'How selecting a tree row cascades to its descendants and ancestors. Adds checkboxes to the tree column when not `independent`',
+            },
+            filterRow: {
+              type: 'boolean',
+              default: false,
+              description:
+                'Renders a row of inputs below the header that update the `filters` model',
+            },
             emptyFilteredText: {
               type: 'string',
               default: 'There are no records matching your request',
@@ -246,6 +355,52 @@ export default {
               type: 'boolean | string[]',
               default: false,
             },
+            labelSortAsc: {
+              type: 'string',
+              default: 'Click to sort ascending',
+              description:
+                'Visually hidden text in the header of a sortable column that is not sorted ascending',
+            },
+            labelSortClear: {
+              type: 'string',
+              default: 'Click to clear sorting',
+              description:
+                'Visually hidden text in the header of a sortable column that is sorted descending',
+            },
+            labelSortDesc: {
+              type: 'string',
+              default: 'Click to sort descending',
+              description:
+                'Visually hidden text in the header of a sortable column that is sorted ascending',
+            },
+            labelExpandRow: {
+              type: 'string',
+              default: 'Expand',
+              description: 'The `aria-label` of the toggle of a collapsed tree row',
+            },
+            labelCollapseRow: {
+              type: 'string',
+              default: 'Collapse',
+              description: 'The `aria-label` of the toggle of an expanded tree row',
+            },
+            sortCompareLocale: {
+              type: 'string | string[]',
+              default: undefined,
+              description:
+                'The locale(s) of the `Intl.Collator` that compares strings when sorting',
+            },
+            sortCompareOptions: {
+              type: 'Intl.CollatorOptions',
+              default: undefined,
+              description:
+                'The options of the `Intl.Collator` that compares strings when sorting, merged into `{numeric: true}`',
+            },
+            sortNullLast: {
+              type: 'boolean',
+              default: false,
+              description:
+                'Places the `null`, `undefined` and invalid values last when sorting, regardless of the sort order',
+            },
             noLocalSorting: {
               type: 'boolean',
               default: false,
@@ -278,10 +433,37 @@ export default {
             perPage: {
               type: 'Numberish',
               default: Number.POSITIVE_INFINITY,
+              description: 'The number of rows to show per page (v-model)',
+            },
+            keyboardNav: {
+              type: 'boolean',
+              default: false,
+              description:
+                'Makes the table an ARIA grid that can be navigated with the keyboard. See [Keyboard navigation](#keyboard-navigation)',
+            },
+            stateKey: {
+              type: 'string',
+              default: undefined,
+              description:
+                'Saves the sort, filter, page, per page, visible fields and selected keys under this key, and restores them when the table is created. See [Persisting table state](#persisting-table-state)',
+            },
+            persist: {
+              type: "'local' | 'session' | 'query' | BTableStateAdapter",
+              default: 'local',
+              description:
+                'Where the state is saved when `state-key` is set: `localStorage`, `sessionStorage`, the URL query, or a custom adapter',
+            },
+            totalRows: {
+              type: 'number',
+              default: undefined,
+              description:
+                'Model of the total number of rows. Set from the `totalRows` returned by the provider, or to the number of filtered items when a provider is not used',
             },
             provider: {
               type: 'BTableProvider',
               default: undefined,
+              description:
+                'Function that returns the items (or `{items, totalRows}`). See the Using items provider functions section',
             },
             selectable: {
               type: 'boolean',
@@ -290,9 +472,17 @@ export default {
             selectedItems: {
               type: 'TableItem[]',
             },
+            selectedKeys: {
+              type: 'unknown[]',
+              default: undefined,
+              description:
+                'Model of the `primary-key` values of the selected rows. Once set, the selection is kept by key, so it survives paging, filtering and provider refreshes',
+            },
             selectHead: {
               type: 'boolean | string',
-              default: true,
+              default: false,
+              description:
+                'Renders a column of checkboxes that select the rows, with a header checkbox that selects the rows of the page. A string is used as the label of the header checkbox',
             },
             selectionVariant: {
               type: 'ColorVariant | null',
@@ -310,6 +500,8 @@ export default {
             stickySelect: {
               type: 'boolean',
               default: false,
+              description:
+                'Makes the column of checkboxes rendered by `select-head` a sticky column',
             },
           } satisfies Record<
             Exclude<
@@ -363,11 +555,12 @@ export default {
               {
                 arg: 'event',
                 description: '',
-                type: 'MouseEvent',
+                type: 'MouseEvent | KeyboardEvent',
               },
             ],
             event: 'rowClicked',
-            description: '',
+            description:
+              'Emitted when a row is clicked, or when Space or Enter is pressed on a row with `keyboard-nav`',
           },
           {
             args: [
@@ -432,6 +625,112 @@ export default {
             event: 'rowUnhovered',
             description: '',
           },
+          {
+            args: [
+              {
+                arg: 'item',
+                description: 'The item of the row being edited',
+                type: 'TableItem',
+              },
+              {
+                arg: 'key',
+                description: 'The key of the field being edited',
+                type: 'string',
+              },
+              {
+                arg: 'index',
+                description: 'The index of the row being edited',
+                type: 'number',
+              },
+            ],
+            event: 'cell-edit-start',
+            description: 'Emitted when an editable cell starts being edited',
+          },
+          {
+            args: [
+              {
+                arg: 'event',
+                description:
+                  'Contains the `item`, `key`, `index`, `oldValue` and `newValue`. Call `preventDefault()` to keep the editor open',
+                type: 'BvCellEditEvent',
+              },
+            ],
+            event: 'cell-edit-commit',
+            description:
+              'Emitted when the edited value is committed. The listener writes `newValue` to the item',
+          },
+          {
+            args: [
+              {
+                arg: 'item',
+                description: 'The item of the row being edited',
+                type: 'TableItem',
+              },
+              {
+                arg: 'key',
+                description: 'The key of the field being edited',
+                type: 'string',
+              },
+              {
+                arg: 'index',
+                description: 'The index of the row being edited',
+                type: 'number',
+              },
+            ],
+            event: 'cell-edit-cancel',
+            description: 'Emitted when the edit of a cell is cancelled',
+          },
+          {
+            args: [
+              {
+                arg: 'from',
+                description: 'The index of the item in `items`',
+                type: 'number',
+              },
+              {
+                arg: 'to',
+                description: 'The index the item is moved to, once it is removed from `from`',
+                type: 'number',
+              },
+              {
+                arg: 'item',
+                description: 'The item that is moved',
+                type: 'Items',
+              },
+            ],
+            event: 'row-reordered',
+            description:
+              'Emitted when a row is moved with the drag handle, when `reorderable` is set. The indices are those of `items`, whatever the sorting and paging',
+          },
+          {
+            args: [
+              {
+                arg: 'error',
+                description: 'The error thrown or rejected by the provider',
+                type: 'unknown',
+              },
+            ],
+            event: 'provider-error',
+            description:
+              'Emitted when the provider throws or rejects, unless its request was aborted. The items are left unchanged',
+          },
+          {
+            args: [
+              {
+                arg: 'error',
+                description: 'The error thrown or rejected by `load-children`',
+                type: 'unknown',
+              },
+              {
+                arg: 'item',
+                description: 'The item of the row whose children failed to load',
+                type: 'Items',
+              },
+            ],
+            event: 'load-children-error',
+            description:
+              'Emitted when `load-children` throws or rejects. The row is left collapsed, so expanding it again retries',
+          },
           {
             args: [
               {
@@ -477,6 +776,128 @@ export default {
             description:
               'Emitted when the `sortBy` model is changed and represents the current sort state',
           },
+          {
+            args: [
+              {
+                arg: 'value',
+                description: 'The new per column filters',
+                type: 'TableColumnFilters<Items> | undefined',
+              },
+            ],
+            event: 'update:filters',
+            description: 'Emitted when the `filters` model is changed',
+          },
+          {
+            args: [
+              {
+                arg: 'value',
+                description: 'The new filter criteria',
+                type: 'string | undefined',
+              },
+            ],
+            event: 'update:filter',
+            description: 'Emitted when the `filter` model is changed',
+          },
+          {
+            args: [
+              {
+                arg: 'value',
+                description: 'The new page number',
+                type: 'Numberish',
+              },
+            ],
+            event: 'update:currentPage',
+            description: 'Emitted when the `currentPage` model is changed',
+          },
+          {
+            args: [
+              {
+                arg: 'value',
+                description: 'The new number of rows per page',
+                type: 'Numberish',
+              },
+            ],
+            event: 'update:perPage',
+            description: 'Emitted when the `perPage` model is changed',
+          },
+          {
+            args: [
+              {
+                arg: 'value',
+                description: 'The keys of the displayed fields',
+                type: 'string[] | undefined',
+              },
+            ],
+            event: 'update:visibleFields',
+            description: 'Emitted when the `visibleFields` model is changed',
+          },
+          {
+            args: [
+              {
+                arg: 'value',
+                description: 'The keys of the fields in their new order',
+                type: 'string[] | undefined',
+              },
+            ],
+            event: 'update:fieldOrder',
+            description: 'Emitted when a column is dragged to a new position',
+          },
+          {
+            args: [
+              {
+                arg: 'value',
+                description: 'The widths of the columns in pixels',
+                type: 'Record<string, number> | undefined',
+              },
+            ],
+            event: 'update:columnWidths',
+            description: 'Emitted while a column is resized',
+          },
+          {
+            args: [
+              {
+                arg: 'value',
+                description: 'The `primary-key` values of the selected rows',
+                type: 'unknown[] | undefined',
+              },
+            ],
+            event: 'update:selectedKeys',
+            description:
+              'Emitted when the selection changes, once the `selected-keys` model is set',
+          },
+          {
+            args: [
+              {
+                arg: 'value',
+                description: 'The item of the row that was expanded',
+                type: 'Items',
+              },
+            ],
+            event: 'row-expanded',
+            description: 'Emitted when a tree row is expanded, after its children are loaded',
+          },
+          {
+            args: [
+              {
+                arg: 'value',
+                description: 'The item of the row that was collapsed',
+                type: 'Items',
+              },
+            ],
+            event: 'row-collapsed',
+            description: 'Emitted when a tree row is collapsed',
+          },
+          {
+            args: [
+              {
+                arg: 'value',
+                description: 'The total number of rows',
+                type: 'number | undefined',
+              },
+            ],
+            event: 'update:totalRows',
+            description: 'Emitted when the `totalRows` model is changed',
+          },
           {
             args: [
               {
@@ -497,9 +918,31 @@ export default {
             scope: [],
           },
           {
-            description: '',
+            description:
+              'Content of the header cell of the column of checkboxes, when `select-head` is set',
             name: 'select-head',
-            scope: [],
+            scope: [
+              {
+                prop: 'allSelected',
+                type: 'boolean',
+                description: 'Whether every row of the page is selected',
+              },
+              {
+                prop: 'indeterminate',
+                type: 'boolean',
+                description: 'Whether some, but not all, rows of the page are selected',
+              },
+              {
+                prop: 'selectAllRows',
+                type: "(scope?: 'page' | 'filtered') => void | Promise<void>",
+                description: 'Selects the rows of the page, or every row that matches the filter',
+              },
+              {
+                prop: 'clearSelected',
+                type: '() => void',
+                description: 'Unselects every row',
+              },
+            ],
           },
           {
             description: '',
@@ -507,15 +950,150 @@ export default {
             scope: [],
           },
           {
-            description: '',
-            name: 'selectCell',
-            scope: [],
+            description:
+              'Content of the group header row, when using `group-by`. Defaults to the label of the group and the number of items',
+            name: 'group-header',
+            scope: [
+              {
+                prop: 'group',
+                type: 'TableGroup<Items>',
+                description:
+                  'The group, with its `value`, `label`, `items`, `aggregates` and `expanded` state',
+              },
+              {
+                prop: 'toggle',
+                type: '() => void',
+                description: 'Expands or collapses the group',
+              },
+              {
+                prop: 'fields',
+                type: 'TableField<Items>[]',
+                description: 'The fields of the table',
+              },
+            ],
+          },
+          {
+            description:
+              'Cells of the aggregate row rendered after the last item of a group, when a field has `aggregate` set',
+            name: 'group-footer',
+            scope: [
+              {
+                prop: 'group',
+                type: 'TableGroup<Items>',
+                description: 'The group the row belongs to',
+              },
+              {
+                prop: 'fields',
+                type: 'TableField<Items>[]',
+                description: 'The fields of the table',
+              },
+              {
+                prop: 'columns',
+                type: 'number',
+                description: 'The number of columns',
+              },
+            ],
+          },
+          {
+            description: 'Additional rows to render before the row of every item',
+            name: 'before-row',
+            scope: [
+              {prop: 'item', type: 'Items', description: 'The item of the row'},
+              {prop: 'index', type: 'number', description: 'The index of the row'},
+              {prop: 'fields', type: 'TableField<Items>[]', description: 'The fields of the table'},
+              {prop: 'columns', type: 'number', description: 'The number of columns'},
+            ],
+          },
+          {
+            description: 'Additional rows to render after the row (and row details) of every item',
+            name: 'after-row',
+            scope: [
+              {prop: 'item', type: 'Items', description: 'The item of the row'},
+              {prop: 'index', type: 'number', description: 'The index of the row'},
+              {prop: 'fields', type: 'TableField<Items>[]', description: 'The fields of the table'},
+              {prop: 'columns', type: 'number', description: 'The number of columns'},
+            ],
+          },
+          {
+            description:
+              'Custom input in the filter row. `filter(key)` is used for the field with that key, `filter()` for every field. Only used when `filter-row` is set',
+            name: 'filter(key)',
+            scope: [
+              {
+                prop: 'field',
+                type: 'TableField<Items>',
+                description: 'The field of the column',
+              },
+              {
+                prop: 'value',
+                type: 'TableColumnFilter<Items>',
+                description: 'The current filter of the column',
+              },
+              {
+                prop: 'updateValue',
+                type: '(value: TableColumnFilter<Items>) => void',
+                description: 'Updates the filter of the column',
+              },
+            ],
+          },
+          {
+            description:
+              'Content of the cells of the column of checkboxes, when `select-head` is set',
+            name: 'select-cell',
+            scope: [
+              {prop: 'item', type: 'Items', description: 'The item of the row'},
+              {prop: 'index', type: 'number', description: 'The index of the row'},
+              {prop: 'selected', type: 'boolean', description: 'Whether the row is selected'},
+              {prop: 'toggle', type: '() => void', description: 'Selects or unselects the row'},
+            ],
           },
           {
             description: '',
             name: 'row-details',
             scope: [],
           },
+          {
+            description:
+              'Custom editor for editable cells. `edit(key)` is used for the field with that key, `edit()` for every editable field',
+            name: 'edit(key)',
+            scope: [
+              {
+                prop: 'value',
+                type: 'unknown',
+                description: 'The current (uncommitted) value',
+              },
+              {
+                prop: 'updateValue',
+                type: '(value: unknown) => void',
+                description: 'Updates the uncommitted value',
+              },
+              {
+                prop: 'commit',
+                type: '() => boolean',
+                description: 'Commits the value. Returns `false` when the commit was prevented',
+              },
+              {
+                prop: 'cancel',
+                type: '() => void',
+                description: 'Cancels the edit',
+              },
+              {
+                prop: 'item',
+                type: 'Items',
+                description: 'The item of the row being edited',
+              },
+              {
+                prop: 'field',
+                type: 'TableField<Items>',
+                description: 'The field being edited',
+              },
+              {
+                prop: 'index',
+                type: 'number',
+                description: 'The index of the row being edited',
+              },
+            ],
+          },
           {
             description: '',
             name: 'table-busy',
@@ -559,8 +1137,65 @@ export default {
           '': BTableLiteProps,
           'BTableSimple Props': BTableSimpleProps,
         },
-        emits: [],
-        slots: [],
+        emits: [
+          {
+            args: [
+              {
+                arg: 'from',
+                description:
+                  'The index of the item in `items`, or -1 when it was moved from another page',
+                type: 'number',
+              },
+              {
+                arg: 'to',
+                description: 'The index the item is moved to, once it is removed from `from`',
+                type: 'number',
+              },
+              {
+                arg: 'item',
+                description: 'The item that is moved',
+                type: 'Items',
+              },
+            ],
+            event: 'row-reordered',
+            description:
+              'Emitted when a row is moved with the drag handle, when `reorderable` is set',
+          },
+          {
+            args: [
+              {
+                arg: 'direction',
+                description: '-1 for the previous page, 1 for the next page',
+                type: '-1 | 1',
+              },
+            ],
+            event: 'reorder-page',
+            description:
+              'Emitted when a row is held at the top or bottom edge while dragging, or moved past the first or last row with the arrow keys. Changing `items` to the adjacent page lets the row be moved across pages',
+          },
+        ],
+        slots: [
+          {
+            description: 'Additional rows to render before the row of every item',
+            name: 'before-row',
+            scope: [
+              {prop: 'item', type: 'Items', description: 'The item of the row'},
+              {prop: 'index', type: 'number', description: 'The index of the row'},
+              {prop: 'fields', type: 'TableField<Items>[]', description: 'The fields of the table'},
+              {prop: 'columns', type: 'number', description: 'The number of columns'},
+            ],
+          },
+          {
+            description: 'Additional rows to render after the row (and row details) of every item',
+            name: 'after-row',
+            scope: [
+              {prop: 'item', type: 'Items', description: 'The item of the row'},
+              {prop: 'index', type: 'number', description: 'The index of the row'},
+              {prop: 'fields', type: 'TableField<Items>[]', description: 'The fields of the table'},
+              {prop: 'columns', type: 'number', description: 'The number of columns'},
+            ],
+          },
+        ],
       },
       {
         component: 'BTableSimple',
@@ -582,6 +1217,18 @@ export default {
         sourcePath: '/BTable/BTbody.vue',
         props: {
           '': {
+            tbodyTransitionHandlers: {
+              type: 'Readonly<Record<string, (el: Element, done: () => void) => void>>',
+              default: undefined,
+              description:
+                'Renders a `TransitionGroup` with these event handlers, such as `enter` and `leave`',
+            },
+            tbodyTransitionProps: {
+              type: 'Readonly<TransitionGroupProps>',
+              default: undefined,
+              description:
+                'Renders a `TransitionGroup` with these props, so the keyed rows animate when they are added, removed or moved',
+            },
             variant: {
               type: 'ColorVariant',
               default: null,
@@ -616,8 +1263,10 @@ export default {
               default: undefined,
             },
             stickyColumn: {
-              type: 'boolean',
+              type: "boolean | 'start' | 'end'",
               default: false,
+              description:
+                "Pins the cell to the leading (`true` or `'start'`) or trailing (`'end'`) edge of the table while it scrolls horizontally",
             },
             variant: {
               type: 'ColorVariant | null',
@@ -674,8 +1323,10 @@ export default {
               default: undefined,
             },
             stickyColumn: {
-              type: 'boolean',
+              type: "boolean | 'start' | 'end'",
               default: false,
+              description:
+                "Pins the cell to the leading (`true` or `'start'`) or trailing (`'end'`) edge of the table while it scrolls horizontally",
             },
             variant: {
               type: 'ColorVariant | null',
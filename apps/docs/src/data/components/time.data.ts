@@ -0,0 +1,43 @@
+import type {BvnComponentProps} from 'bootstrap-vue-next'
+import {type ComponentReference, type PropertyReference, StyleKind} from '../../types'
+import {buildCommonProps, pick, timeProps} from '../../utils'
+
+export default {
+  load: (): ComponentReference[] => [
+    {
+      component: 'BTime',
+      styleSpec: {kind: StyleKind.BsvnClass},
+      sourcePath: '/BTime/BTime.vue',
+      props: {
+        '': {
+          ...timeProps,
+          hideHeader: {
+            type: 'boolean',
+            default: false,
+            description: 'When set, the selected time is not displayed above the spinbuttons',
+          },
+          ...pick(buildCommonProps(), ['ariaLabelledby', 'id']),
+        } satisfies Record<keyof BvnComponentProps['BTime'], PropertyReference>,
+      },
+      emits: [
+        {
+          event: 'update:model-value',
+          args: [
+            {
+              arg: 'value',
+              type: 'string | null',
+              description: 'The new value',
+            },
+          ],
+          description: 'Emitted to update the v-model',
+        },
+      ],
+      slots: [
+        {
+          name: 'default',
+          description: 'Content to place below the spinbuttons',
+        },
+      ],
+    },
+  ],
+}
@@ -1,6 +1,12 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
-const getStringValue = (value: unknown): string => 'dummy string'
+const getSortValue = (value: unknown): number | string => 'dummy string'
+const collator = new Intl.Collator(undefined, {numeric: true})
 /* #region snippet */
-const defaultComparer = (a: unknown, b: unknown): number =>
-  getStringValue(a).localeCompare(getStringValue(b), undefined, {numeric: true})
+const defaultComparer = (a: unknown, b: unknown): number => {
+  const valueA = getSortValue(a)
+  const valueB = getSortValue(b)
+  return typeof valueA === 'number' && typeof valueB === 'number'
+    ? valueA - valueB
+    : collator.compare(String(valueA), String(valueB))
+}
 /* #endregion snippet */
@@ -0,0 +1,122 @@
+import type {BvnComponentProps} from 'bootstrap-vue-next'
+import type {PropertyReference} from '../types'
+import {buildCommonProps} from './build-common-props'
+import {pick} from './object-utils'
+
+export const calendarProps = {
+  block: {
+    type: 'boolean',
+    default: false,
+    description: 'When set, the calendar fills the width of its container',
+  },
+  dateDisabledFn: {
+    type: 'CalendarDateDisabledFn',
+    default: undefined,
+    description:
+      'Called with the `YYYY-MM-DD` string and the `Date` of every displayed day. Return `true` to disable the date',
+  },
+  initialDate: {
+    type: 'CalendarDate',
+    default: undefined,
+    description:
+      'The date to display when there is no value. Defaults to today. Accepts a `YYYY-MM-DD` string or a `Date`',
+  },
+  labelCurrentMonth: {
+    type: 'string',
+    default: 'Current month',
+    description: 'Label for the button that displays the current month',
+  },
+  labelHelp: {
+    type: 'string',
+    default: 'Use cursor keys to navigate calendar dates',
+    description: 'Help text displayed below the calendar grid',
+  },
+  labelNav: {
+    type: 'string',
+    default: 'Calendar navigation',
+    description: 'Label for the group of navigation buttons',
+  },
+  labelNextMonth: {
+    type: 'string',
+    default: 'Next month',
+    description: 'Label for the next month button',
+  },
+  labelNextYear: {
+    type: 'string',
+    default: 'Next year',
+    description: 'Label for the next year button',
+  },
+  labelNoDateSelected: {
+    type: 'string',
+    default: 'No date selected',
+    description: 'Text displayed when there is no value',
+  },
+  labelPrevMonth: {
+    type: 'string',
+    default: 'Previous month',
+    description: 'Label for the previous month button',
+  },
+  labelPrevYear: {
+    type: 'string',
+    default: 'Previous year',
+    description: 'Label for the previous year button',
+  },
+  labelSelected: {
+    type: 'string',
+    default: 'Selected date',
+    description: 'Visually hidden label announced before the selected date',
+  },
+  locale: {
+    type: 'string',
+    default: undefined,
+    description:
+      'The locale of the month and weekday names. Defaults to the locale of the RTL plugin, then to the browser locale',
+  },
+  max: {
+    type: 'CalendarDate',
+    default: undefined,
+    description: 'The latest date that can be selected, as a `YYYY-MM-DD` string or a `Date`',
+  },
+  min: {
+    type: 'CalendarDate',
+    default: undefined,
+    description: 'The earliest date that can be selected, as a `YYYY-MM-DD` string or a `Date`',
+  },
+  modelValue: {
+    type: 'CalendarValue',
+    default: null,
+    description:
+      'The selected date as a `YYYY-MM-DD` string, or a `[start, end]` tuple of `YYYY-MM-DD` strings when `range` is set',
+  },
+  noHighlightToday: {
+    type: 'boolean',
+    default: false,
+    description: 'When set, today is not highlighted',
+  },
+  range: {
+    type: 'boolean',
+    default: false,
+    description: 'When set, a range of dates is selected with two clicks',
+  },
+  selectedVariant: {
+    type: 'ColorVariant',
+    default: 'primary',
+    description: 'Theme color variant of the selected date',
+  },
+  startWeekday: {
+    type: 'Numberish',
+    default: 0,
+    description: 'The first day of the week, from `0` (Sunday) to `6` (Saturday)',
+  },
+  todayVariant: {
+    type: 'ColorVariant | null',
+    default: null,
+    description: 'Theme color variant of the highlighted today. Defaults to `selected-variant`',
+  },
+  weekdayHeaderFormat: {
+    type: "'long' | 'short' | 'narrow'",
+    default: 'short',
+    description: 'The format of the weekday names in the header of the calendar grid',
+  },
+  ...pick(buildCommonProps(), ['disabled', 'readonly']),
+} satisfies Partial<Record<keyof BvnComponentProps['BCalendar'], PropertyReference>>
@@ -326,6 +326,12 @@ export const commonProps = () =>
       default: undefined,
       description: 'Sets the ARIA attribute `role` to a specific value',
     },
+    rules: {
+      type: 'FormValidationRules',
+      default: undefined,
+      description:
+        'The validation rules of the value: a function that returns `true` or an error message (sync or async), an object of built-in rules (`required`, `min`, `max`, `pattern`, `email`), a Standard Schema, or an array of them. The result sets the validation state',
+    },
     rounded: {
       type: 'boolean | RadiusElement',
       default: 'false',
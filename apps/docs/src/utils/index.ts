@@ -5,3 +5,5 @@ export {pick, omit} from './object-utils'
 export {kebabCase} from './string-utils'
 export {dropdownEmits, dropdownProps, dropdownSlots} from './dropdown-common'
 export {showHideProps} from './showhide-props'
+export {calendarProps} from './calendar-common'
+export {timeProps} from './time-common'
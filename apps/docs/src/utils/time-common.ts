@@ -0,0 +1,90 @@
+import type {BvnComponentProps} from 'bootstrap-vue-next'
+import type {PropertyReference} from '../types'
+import {buildCommonProps} from './build-common-props'
+import {pick} from './object-utils'
+
+export const timeProps = {
+  hour12: {
+    type: 'boolean',
+    default: undefined,
+    description:
+      'When `true`, hours are displayed on a 12 hour clock with an AM/PM spinbutton, when `false`, on a 24 hour clock. Defaults to the convention of the locale',
+  },
+  labelAm: {
+    type: 'string',
+    default: 'AM',
+    description: 'Text displayed in the AM/PM spinbutton for the morning',
+  },
+  labelAmpm: {
+    type: 'string',
+    default: 'AM/PM',
+    description: 'Label for the AM/PM spinbutton',
+  },
+  labelDecrement: {
+    type: 'string',
+    default: 'Decrement',
+    description: 'Label for the decrement buttons of the spinbuttons',
+  },
+  labelHours: {
+    type: 'string',
+    default: 'Hours',
+    description: 'Label for the hours spinbutton',
+  },
+  labelIncrement: {
+    type: 'string',
+    default: 'Increment',
+    description: 'Label for the increment buttons of the spinbuttons',
+  },
+  labelMinutes: {
+    type: 'string',
+    default: 'Minutes',
+    description: 'Label for the minutes spinbutton',
+  },
+  labelNoTimeSelected: {
+    type: 'string',
+    default: 'No time selected',
+    description: 'Text displayed when there is no value',
+  },
+  labelPm: {
+    type: 'string',
+    default: 'PM',
+    description: 'Text displayed in the AM/PM spinbutton for the afternoon',
+  },
+  labelSeconds: {
+    type: 'string',
+    default: 'Seconds',
+    description: 'Label for the seconds spinbutton',
+  },
+  labelSelected: {
+    type: 'string',
+    default: 'Selected time',
+    description: 'Visually hidden label announced before the selected time',
+  },
+  locale: {
+    type: 'string',
+    default: undefined,
+    description:
+      'The locale used to format the time. Defaults to the locale of the RTL plugin, then to the browser locale',
+  },
+  minutesStep: {
+    type: 'Numberish',
+    default: 1,
+    description: 'The step of the minutes spinbutton',
+  },
+  modelValue: {
+    type: 'string | null',
+    default: null,
+    description: 'The selected time as a `HH:mm:ss` string in 24 hour format',
+  },
+  secondsStep: {
+    type: 'Numberish',
+    default: 1,
+    description: 'The step of the seconds spinbutton',
+  },
+  showSeconds: {
+    type: 'boolean',
+    default: false,
+    description: 'When set, displays a spinbutton for the seconds',
+  },
+  ...pick(buildCommonProps(), ['disabled', 'readonly']),
+} satisfies Partial<Record<keyof BvnComponentProps['BTime'], PropertyReference>>
@@ -0,0 +1,174 @@
+import {enableAutoUnmount, mount} from '@vue/test-utils'
+import {afterEach, describe, expect, it} from 'vitest'
+import BCalendar from './BCalendar.vue'
+import BForm from '../BForm/BForm.vue'
+import {rtlPluginKey} from '../../utils/keys'
+import {h, nextTick, ref} from 'vue'
+
+describe('calendar', () => {
+  enableAutoUnmount(afterEach)
+
+  const getActiveDate = (wrapper: ReturnType<typeof mount>) => {
+    const id = wrapper.get('[role="grid"]').attributes('aria-activedescendant')
+    return wrapper.get(`[id="${id}"]`).attributes('data-date')
+  }
+
+  it('has static class b-calendar', () => {
+    const wrapper = mount(BCalendar)
+    expect(wrapper.classes()).toContain('b-calendar')
+  })
+
+  it('renders six weeks of seven days starting on startWeekday', () => {
+    const wrapper = mount(BCalendar, {
+      props: {modelValue: '2024-03-15', locale: 'en-US', startWeekday: 1},
+    })
+    const rows = wrapper.findAll('.b-calendar-grid-body [role="row"]')
+    expect(rows).toHaveLength(6)
+    expect(rows[0].findAll('[role="gridcell"]')).toHaveLength(7)
+    // March 1st 2024 is a Friday, so the grid starts on Monday February 26th
+    expect(rows[0].get('[role="gridcell"]').attributes('data-date')).toBe('2024-02-26')
+    expect(wrapper.get('[role="columnheader"]').attributes('title')).toBe('Monday')
+  })
+
+  it('uses the locale for the month and weekday names', () => {
+    const wrapper = mount(BCalendar, {
+      props: {modelValue: '2024-03-15', locale: 'de-DE'},
+    })
+    expect(wrapper.get('.b-calendar-grid-caption').text()).toBe('März 2024')
+    expect(wrapper.get('[role="columnheader"]').attributes('title')).toBe('Sonntag')
+    expect(wrapper.attributes('lang')).toBe('de-DE')
+  })
+
+  it('selects the clicked date', async () => {
+    const wrapper = mount(BCalendar, {
+      props: {modelValue: '2024-03-15', locale: 'en-US'},
+    })
+    await wrapper.get('[data-date="2024-03-20"]').trigger('click')
+    expect(wrapper.emitted('update:modelValue')?.[0]).toEqual(['2024-03-20'])
+    expect(wrapper.emitted('selected')?.[0]).toEqual(['2024-03-20'])
+  })
+
+  it('does not select dates outside min and max or disabled by dateDisabledFn', async () => {
+    const wrapper = mount(BCalendar, {
+      props: {
+        modelValue: '2024-03-15',
+        min: '2024-03-10',
+        max: '2024-03-25',
+        dateDisabledFn: (ymd: string) => ymd === '2024-03-20',
+      },
+    })
+    expect(wrapper.get('[data-date="2024-03-09"]').attributes('aria-disabled')).toBe('true')
+    expect(wrapper.get('[data-date="2024-03-26"]').attributes('aria-disabled')).toBe('true')
+    expect(wrapper.get('[data-date="2024-03-20"]').attributes('aria-disabled')).toBe('true')
+    expect(wrapper.get('[data-date="2024-03-21"]').attributes('aria-disabled')).toBeUndefined()
+    await wrapper.get('[data-date="2024-03-09"]').trigger('click')
+    await wrapper.get('[data-date="2024-03-20"]').trigger('click')
+    expect(wrapper.emitted('update:modelValue')).toBeUndefined()
+  })
+
+  it('disables the navigation past min and max', () => {
+    const wrapper = mount(BCalendar, {
+      props: {modelValue: '2024-03-15', min: '2024-03-01', max: '2024-04-10'},
+    })
+    expect(wrapper.get('.b-calendar-nav-prev-month').attributes('disabled')).toBeDefined()
+    expect(wrapper.get('.b-calendar-nav-prev-year').attributes('disabled')).toBeDefined()
+    expect(wrapper.get('.b-calendar-nav-next-month').attributes('disabled')).toBeUndefined()
+    expect(wrapper.get('.b-calendar-nav-next-year').attributes('disabled')).toBeDefined()
+  })
+
+  it('describes the keyboard shortcuts of the navigation buttons', () => {
+    const wrapper = mount(BCalendar, {props: {modelValue: '2024-03-15'}})
+    expect(wrapper.get('.b-calendar-nav-prev-month').attributes('aria-keyshortcuts')).toBe('PageUp')
+    expect(wrapper.get('.b-calendar-nav-next-year').attributes('aria-keyshortcuts')).toBe(
+      'Alt+PageDown'
+    )
+  })
+
+  it('moves the active date with the keyboard', async () => {
+    const wrapper = mount(BCalendar, {
+      props: {modelValue: '2024-01-31', locale: 'en-US'},
+    })
+    // The key listener is registered once the grid is rendered
+    await nextTick()
+    const grid = wrapper.get('[role="grid"]')
+    expect(getActiveDate(wrapper)).toBe('2024-01-31')
+    await grid.trigger('keydown', {key: 'ArrowRight'})
+    expect(getActiveDate(wrapper)).toBe('2024-02-01')
+    await grid.trigger('keydown', {key: 'ArrowUp'})
+    expect(getActiveDate(wrapper)).toBe('2024-01-25')
+    await grid.trigger('keydown', {key: 'PageDown'})
+    expect(getActiveDate(wrapper)).toBe('2024-02-25')
+    await grid.trigger('keydown', {key: 'PageUp', altKey: true})
+    expect(getActiveDate(wrapper)).toBe('2023-02-25')
+    // February 25th 2023 is a Saturday
+    await grid.trigger('keydown', {key: 'Home'})
+    expect(getActiveDate(wrapper)).toBe('2023-02-19')
+    await grid.trigger('keydown', {key: 'End'})
+    expect(getActiveDate(wrapper)).toBe('2023-02-25')
+    await grid.trigger('keydown', {key: 'Enter'})
+    expect(wrapper.emitted('update:modelValue')?.[0]).toEqual(['2023-02-25'])
+  })
+
+  it('keeps the active date between min and max', async () => {
+    const wrapper = mount(BCalendar, {
+      props: {modelValue: '2024-03-15', min: '2024-03-10', max: '2024-03-20'},
+    })
+    await nextTick()
+    const grid = wrapper.get('[role="grid"]')
+    await grid.trigger('keydown', {key: 'PageUp'})
+    expect(getActiveDate(wrapper)).toBe('2024-03-10')
+    await grid.trigger('keydown', {key: 'PageDown'})
+    expect(getActiveDate(wrapper)).toBe('2024-03-20')
+  })
+
+  it('reverses the horizontal arrow keys in RTL', async () => {
+    const wrapper = mount(BCalendar, {
+      props: {modelValue: '2024-03-15'},
+      global: {provide: {[rtlPluginKey as symbol]: {isRtl: ref(true), locale: ref('ar')}}},
+    })
+    expect(wrapper.attributes('dir')).toBe('rtl')
+    await nextTick()
+    await wrapper.get('[role="grid"]').trigger('keydown', {key: 'ArrowRight'})
+    expect(getActiveDate(wrapper)).toBe('2024-03-14')
+  })
+
+  it('selects a range when range is set', async () => {
+    const wrapper = mount(BCalendar, {
+      props: {
+        'modelValue': null,
+        'initialDate': '2024-03-01',
+        'range': true,
+        'onUpdate:modelValue': (value) => wrapper.setProps({modelValue: value}),
+      },
+    })
+    await wrapper.get('[data-date="2024-03-12"]').trigger('click')
+    expect(wrapper.props('modelValue')).toEqual(['2024-03-12', null])
+    await wrapper.get('[data-date="2024-03-08"]').trigger('click')
+    expect(wrapper.props('modelValue')).toEqual(['2024-03-08', '2024-03-12'])
+    expect(wrapper.get('[data-date="2024-03-10"]').classes()).toContain('b-calendar-in-range')
+    expect(wrapper.get('[data-date="2024-03-10"]').attributes('aria-selected')).toBe('true')
+    expect(wrapper.get('[data-date="2024-03-13"]').attributes('aria-selected')).toBe('false')
+    await wrapper.get('[data-date="2024-03-20"]').trigger('click')
+    expect(wrapper.props('modelValue')).toEqual(['2024-03-20', null])
+  })
+
+  it('does not change the value when readonly', async () => {
+    const wrapper = mount(BCalendar, {
+      props: {modelValue: '2024-03-15', readonly: true},
+    })
+    await wrapper.get('[data-date="2024-03-20"]').trigger('click')
+    expect(wrapper.emitted('update:modelValue')).toBeUndefined()
+    expect(getActiveDate(wrapper)).toBe('2024-03-20')
+  })
+
+  it('is disabled while its BForm is busy', async () => {
+    const wrapper = mount(BForm, {
+      props: {busy: true},
+      slots: {default: () => h(BCalendar, {initialDate: '2024-03-15'})},
+    })
+    expect(wrapper.get('[role="grid"]').attributes('aria-disabled')).toBe('true')
+    expect(wrapper.get('.b-calendar-nav-next-month').attributes('disabled')).toBeDefined()
+    await wrapper.get('[data-date="2024-03-20"]').trigger('click')
+    expect(wrapper.getComponent(BCalendar).emitted('update:modelValue')).toBeUndefined()
+  })
+})
@@ -0,0 +1 @@
+export {default as BCalendar} from './BCalendar.vue'
@@ -1,6 +1,11 @@
-import {enableAutoUnmount, mount} from '@vue/test-utils'
-import {afterEach, describe, expect, it} from 'vitest'
+import {enableAutoUnmount, flushPromises, mount} from '@vue/test-utils'
+import {afterEach, describe, expect, it, vi} from 'vitest'
 import BForm from './BForm.vue'
+import BFormGroup from '../BFormGroup/BFormGroup.vue'
+import BFormInput from '../BFormInput/BFormInput.vue'
+import BButton from '../BButton/BButton.vue'
+import {h} from 'vue'
+import type {FormValidationRules} from '../../types/FormValidationTypes'
 
 describe('form', () => {
   enableAutoUnmount(afterEach)
@@ -58,4 +63,251 @@ describe('form', () => {
     const $emitted = wrapper.emitted('submit') ?? []
     expect($emitted[0][0] instanceof Event).toBe(true)
   })
+
+  describe('validation', () => {
+    const mountForm = (fields: {id: string; rules?: FormValidationRules; value?: string}[]) =>
+      mount(BForm, {
+        slots: {
+          default: () =>
+            fields.map((field) =>
+              h(BFormInput, {id: field.id, rules: field.rules, modelValue: field.value ?? ''})
+            ),
+        },
+      })
+
+    it('validates every field with validate', async () => {
+      const wrapper = mountForm([
+        {id: 'name', rules: {required: true}},
+        {id: 'email', rules: {email: true}, value: 'ada@example.com'},
+        {id: 'comment'},
+      ])
+      expect(wrapper.get('#name').attributes('aria-invalid')).toBeUndefined()
+      const valid = await wrapper.vm.validate()
+      await flushPromises()
+      expect(valid).toBe(false)
+      expect(wrapper.vm.isValid).toBe(false)
+      expect(wrapper.vm.errors).toEqual({name: ['This field is required']})
+      expect(wrapper.get('#name').classes()).toContain('is-invalid')
+      expect(wrapper.get('#name').attributes('aria-invalid')).toBe('true')
+      expect(wrapper.get('#email').classes()).toContain('is-valid')
+      expect(wrapper.get('#comment').classes()).not.toContain('is-valid')
+    })
+
+    it('runs the built-in rules', async () => {
+      const wrapper = mountForm([
+        {id: 'short', rules: {min: 3}, value: 'ab'},
+        {id: 'long', rules: {max: 3, message: 'Too long'}, value: 'abcd'},
+        {id: 'pattern', rules: {pattern: /^\d+$/}, value: '12a'},
+        {id: 'email', rules: {email: true}, value: 'ada@'},
+        {id: 'empty', rules: {min: 3, email: true}},
+      ])
+      await wrapper.vm.validate()
+      expect(wrapper.vm.errors).toEqual({
+        short: ['Must be at least 3 characters'],
+        long: ['Too long'],
+        pattern: ['The value has an invalid format'],
+        email: ['Must be a valid email address'],
+      })
+    })
+
+    it('runs sync and async rule functions and standard schemas', async () => {
+      const schema = {
+        '~standard': {
+          validate: (value: unknown) =>
+            value === 'taken' ? {issues: [{message: 'Already taken'}]} : {value},
+        },
+      }
+      const wrapper = mountForm([
+        {id: 'sync', rules: (value: string) => value.length > 1 || 'Too short', value: 'a'},
+        {id: 'async', rules: [() => Promise.resolve(false)], value: 'a'},
+        {id: 'schema', rules: schema, value: 'taken'},
+      ])
+      await wrapper.vm.validate()
+      expect(wrapper.vm.errors).toEqual({
+        sync: ['Too short'],
+        async: ['The value is invalid'],
+        schema: ['Already taken'],
+      })
+    })
+
+    it('turns a rule that throws into an error', async () => {
+      const wrapper = mountForm([
+        {
+          id: 'sync',
+          rules: () => {
+            throw new Error('Unavailable')
+          },
+          value: 'a',
+        },
+        {id: 'async', rules: () => Promise.reject(new Error()), value: 'a'},
+      ])
+      const input = wrapper.get('#async')
+      await input.setValue('b')
+      await flushPromises()
+      expect(input.classes()).toContain('is-invalid')
+      expect(await wrapper.vm.validate()).toBe(false)
+      expect(wrapper.vm.errors).toEqual({
+        sync: ['Unavailable'],
+        async: ['The value could not be validated'],
+      })
+    })
+
+    it('validates a field when its value changes', async () => {
+      const wrapper = mountForm([{id: 'name', rules: {required: true}, value: 'Ada'}])
+      const input = wrapper.get('#name')
+      await input.setValue('')
+      await flushPromises()
+      expect(input.classes()).toContain('is-invalid')
+      await input.setValue('Grace')
+      await flushPromises()
+      expect(input.classes()).toContain('is-valid')
+    })
+
+    it('tracks dirty fields and restores the initial values with reset', async () => {
+      const wrapper = mountForm([{id: 'name', rules: {required: true}, value: 'Ada'}])
+      const input = wrapper.get('#name')
+      expect(wrapper.vm.isDirty).toBe(false)
+      await input.setValue('')
+      await flushPromises()
+      expect(wrapper.vm.isDirty).toBe(true)
+      expect(wrapper.vm.isValid).toBe(false)
+      wrapper.vm.reset()
+      await flushPromises()
+      expect(wrapper.vm.isDirty).toBe(false)
+      expect(wrapper.vm.errors).toEqual({})
+      expect((input.element as HTMLInputElement).value).toBe('Ada')
+      expect(input.classes()).not.toContain('is-invalid')
+    })
+
+    it('collects the errors of the rules of a BFormGroup', async () => {
+      const wrapper = mount(BForm, {
+        slots: {
+          default: () =>
+            h(BFormGroup, {id: 'group', rules: {required: true}}, () =>
+              h(BFormInput, {id: 'name'})
+            ),
+        },
+      })
+      expect(await wrapper.vm.validate()).toBe(false)
+      expect(wrapper.vm.errors).toEqual({group: ['This field is required']})
+    })
+  })
+
+  describe('submit', () => {
+    it('calls the submit handler with the named values', async () => {
+      const onSubmit = vi.fn((event: Event) => event.preventDefault())
+      const wrapper = mount(BForm, {
+        props: {onSubmit},
+        slots: {
+          default: () => [
+            h(BFormInput, {name: 'name', modelValue: 'Ada'}),
+            h(BFormInput, {name: 'age', type: 'number', modelValue: 36}),
+            h('input', {name: 'tags', value: 'math'}),
+            h('input', {name: 'tags', value: 'code'}),
+          ],
+        },
+      })
+      await wrapper.trigger('submit')
+      expect(onSubmit).toHaveBeenCalledOnce()
+      expect(onSubmit.mock.calls[0][1]).toEqual({name: 'Ada', age: 36, tags: ['math', 'code']})
+    })
+
+    it('is busy until an async submit handler settles', async () => {
+      let resolve: () => void = () => {}
+      const wrapper = mount(BForm, {
+        props: {onSubmit: () => new Promise<void>((res) => (resolve = res))},
+        slots: {
+          default: () => [h(BFormInput, {id: 'name'}), h(BButton, {type: 'submit'})],
+        },
+      })
+      await wrapper.trigger('submit')
+      expect(wrapper.attributes('aria-busy')).toBe('true')
+      expect(wrapper.emitted('update:busy')).toEqual([[true]])
+      expect(wrapper.get('input').attributes('disabled')).toBeDefined()
+      expect(wrapper.get('button').attributes('disabled')).toBeDefined()
+      resolve()
+      await flushPromises()
+      expect(wrapper.attributes('aria-busy')).toBeUndefined()
+      expect(wrapper.get('input').attributes('disabled')).toBeUndefined()
+      expect(wrapper.get('button').attributes('disabled')).toBeUndefined()
+    })
+
+    it('prevents the native submission while an async handler without rules is pending', async () => {
+      const wrapper = mount(BForm, {
+        props: {onSubmit: () => Promise.resolve()},
+        slots: {default: () => h(BFormInput, {id: 'name'})},
+      })
+      const event = new Event('submit', {cancelable: true})
+      wrapper.element.dispatchEvent(event)
+      expect(event.defaultPrevented).toBe(true)
+      await flushPromises()
+    })
+
+    it('emits submit-error and stays dirty when the submit handler rejects', async () => {
+      const error = new Error('failed')
+      const wrapper = mount(BForm, {
+        props: {onSubmit: () => Promise.reject(error)},
+        slots: {default: () => h(BFormInput, {id: 'name', modelValue: 'Ada'})},
+      })
+      await wrapper.get('#name').setValue('Grace')
+      await wrapper.trigger('submit')
+      await flushPromises()
+      expect(wrapper.emitted('submit-error')).toEqual([[error]])
+      expect(wrapper.emitted('update:busy')).toEqual([[true], [false]])
+      expect(wrapper.vm.isDirty).toBe(true)
+    })
+
+    it('focuses the first invalid field instead of submitting', async () => {
+      const onSubmit = vi.fn()
+      const wrapper = mount(BForm, {
+        attachTo: document.body,
+        props: {onSubmit},
+        slots: {
+          default: () => [
+            h(BFormInput, {id: 'name', modelValue: 'Ada', rules: {required: true}}),
+            h(BFormInput, {id: 'email', rules: {required: true}}),
+            h(BFormInput, {id: 'phone', rules: {required: true}}),
+          ],
+        },
+      })
+      await wrapper.trigger('submit')
+      await flushPromises()
+      expect(onSubmit).not.toHaveBeenCalled()
+      expect(document.activeElement).toBe(wrapper.get('#email').element)
+    })
+
+    it('tracks touched fields and is pristine after a successful submit', async () => {
+      const wrapper = mount(BForm, {
+        props: {onSubmit: () => Promise.resolve()},
+        slots: {
+          default: () => h(BFormInput, {id: 'name', modelValue: 'Ada', rules: {required: true}}),
+        },
+      })
+      const input = wrapper.get('#name')
+      expect(wrapper.vm.isTouched).toBe(false)
+      await input.setValue('Grace')
+      await input.trigger('blur')
+      expect(wrapper.vm.isTouched).toBe(true)
+      expect(wrapper.vm.isDirty).toBe(true)
+      await wrapper.trigger('submit')
+      await flushPromises()
+      expect(wrapper.vm.isTouched).toBe(false)
+      expect(wrapper.vm.isDirty).toBe(false)
+    })
+
+    it('guards leaving the page while dirty with leave-guard', async () => {
+      const wrapper = mount(BForm, {
+        props: {leaveGuard: true},
+        slots: {default: () => h(BFormInput, {id: 'name', modelValue: 'Ada'})},
+      })
+      const leave = () => {
+        const event = new Event('beforeunload', {cancelable: true})
+        window.dispatchEvent(event)
+        return event.defaultPrevented
+      }
+      expect(leave()).toBe(false)
+      await wrapper.get('#name').setValue('Grace')
+      expect(leave()).toBe(true)
+    })
+  })
 })
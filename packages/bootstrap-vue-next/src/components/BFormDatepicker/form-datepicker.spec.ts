@@ -0,0 +1,134 @@
+import {enableAutoUnmount, mount} from '@vue/test-utils'
+import {afterEach, describe, expect, it} from 'vitest'
+import BFormDatepicker from './BFormDatepicker.vue'
+import BForm from '../BForm/BForm.vue'
+import BFormGroup from '../BFormGroup/BFormGroup.vue'
+import BCalendar from '../BCalendar/BCalendar.vue'
+import {h, nextTick} from 'vue'
+
+// The dropdown is shown and hidden with a timeout after the next animation frame
+const waitForDropdown = async () => {
+  await new Promise((resolve) => requestAnimationFrame(resolve))
+  await new Promise((resolve) => setTimeout(resolve))
+  await nextTick()
+}
+
+describe('form-datepicker', () => {
+  enableAutoUnmount(afterEach)
+
+  it('has static class b-form-datepicker', () => {
+    const wrapper = mount(BFormDatepicker)
+    expect(wrapper.classes()).toContain('b-form-datepicker')
+    expect(wrapper.classes()).toContain('form-control')
+  })
+
+  it('shows the placeholder when there is no value', () => {
+    const wrapper = mount(BFormDatepicker, {
+      props: {placeholder: 'Pick a date'},
+    })
+    expect(wrapper.get('.b-form-datepicker-toggle').text()).toBe('Pick a date')
+  })
+
+  it('shows the value formatted with the locale', () => {
+    const wrapper = mount(BFormDatepicker, {
+      props: {modelValue: '2024-03-15', locale: 'en-US'},
+    })
+    expect(wrapper.get('.b-form-datepicker-toggle').text()).toBe('March 15, 2024')
+  })
+
+  it('opens the calendar in a dropdown', async () => {
+    const wrapper = mount(BFormDatepicker, {
+      props: {modelValue: '2024-03-15'},
+    })
+    const toggle = wrapper.get('.b-form-datepicker-toggle')
+    expect(toggle.attributes('aria-expanded')).toBe('false')
+    await toggle.trigger('click')
+    await waitForDropdown()
+    expect(toggle.attributes('aria-expanded')).toBe('true')
+    expect(wrapper.get('.dropdown-menu').attributes('role')).toBe('dialog')
+    expect(wrapper.findComponent(BCalendar).exists()).toBe(true)
+  })
+
+  it('closes after a date is selected', async () => {
+    const wrapper = mount(BFormDatepicker, {
+      props: {modelValue: '2024-03-15'},
+    })
+    const toggle = wrapper.get('.b-form-datepicker-toggle')
+    await toggle.trigger('click')
+    await waitForDropdown()
+    expect(toggle.attributes('aria-expanded')).toBe('true')
+    await wrapper.get('[data-date="2024-03-20"]').trigger('click')
+    await waitForDropdown()
+    expect(wrapper.emitted('update:modelValue')?.[0]).toEqual(['2024-03-20'])
+    expect(toggle.attributes('aria-expanded')).toBe('false')
+  })
+
+  it('stays open until a range is complete', async () => {
+    const wrapper = mount(BFormDatepicker, {
+      props: {
+        'modelValue': null,
+        'initialDate': '2024-03-01',
+        'range': true,
+        'onUpdate:modelValue': (value) => wrapper.setProps({modelValue: value}),
+      },
+    })
+    const toggle = wrapper.get('.b-form-datepicker-toggle')
+    await toggle.trigger('click')
+    await waitForDropdown()
+    expect(toggle.attributes('aria-expanded')).toBe('true')
+    await wrapper.get('[data-date="2024-03-12"]').trigger('click')
+    await waitForDropdown()
+    expect(toggle.attributes('aria-expanded')).toBe('true')
+    await wrapper.get('[data-date="2024-03-14"]').trigger('click')
+    await waitForDropdown()
+    expect(wrapper.props('modelValue')).toEqual(['2024-03-12', '2024-03-14'])
+    expect(toggle.attributes('aria-expanded')).toBe('false')
+  })
+
+  it('renders hidden inputs when name is set', async () => {
+    const wrapper = mount(BFormDatepicker, {
+      props: {modelValue: '2024-03-15', name: 'date'},
+    })
+    expect(wrapper.get('input[type="hidden"]').attributes('name')).toBe('date')
+    expect(wrapper.get('input[type="hidden"]').element.value).toBe('2024-03-15')
+    await wrapper.setProps({range: true, modelValue: ['2024-03-15', '2024-03-18']})
+    const values = wrapper.findAll('input[type="hidden"]').map((input) => input.element.value)
+    expect(values).toEqual(['2024-03-15', '2024-03-18'])
+  })
+
+  it('resets the value with the reset button', async () => {
+    const wrapper = mount(BFormDatepicker, {
+      props: {modelValue: '2024-03-15', resetButton: true},
+    })
+    await wrapper.get('.b-form-datepicker-footer button').trigger('click')
+    expect(wrapper.emitted('update:modelValue')?.[0]).toEqual([null])
+  })
+
+  it('is disabled while its BForm is busy', () => {
+    const wrapper = mount(BForm, {
+      props: {busy: true},
+      slots: {default: () => h(BFormDatepicker, {modelValue: '2024-03-15', resetButton: true})},
+    })
+    expect(wrapper.get('.b-form-datepicker').classes()).toContain('disabled')
+    expect(wrapper.getComponent(BCalendar).props('disabled')).toBe(true)
+    expect(wrapper.get('.b-form-datepicker-footer button').attributes('disabled')).toBeDefined()
+  })
+
+  it('has the state of the parent BFormGroup', () => {
+    const wrapper = mount(BFormGroup, {
+      props: {state: false},
+      slots: {default: () => h(BFormDatepicker)},
+    })
+    const datepicker = wrapper.get('.b-form-datepicker')
+    expect(datepicker.classes()).toContain('is-invalid')
+    expect(datepicker.attributes('aria-invalid')).toBe('true')
+  })
+
+  it('state prop overrides the parent BFormGroup', () => {
+    const wrapper = mount(BFormGroup, {
+      props: {state: false},
+      slots: {default: () => h(BFormDatepicker, {state: true})},
+    })
+    expect(wrapper.get('.b-form-datepicker').classes()).toContain('is-valid')
+  })
+})
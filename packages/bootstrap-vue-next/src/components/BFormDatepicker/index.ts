@@ -0,0 +1 @@
+export {default as BFormDatepicker} from './BFormDatepicker.vue'
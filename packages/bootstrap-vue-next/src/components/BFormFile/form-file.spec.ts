@@ -1,6 +1,7 @@
-import {enableAutoUnmount, mount} from '@vue/test-utils'
+import {enableAutoUnmount, flushPromises, mount} from '@vue/test-utils'
 import {afterEach, describe, expect, it} from 'vitest'
 import BFormFile from './BFormFile.vue'
+import {nextTick} from 'vue'
 
 describe('form-file', () => {
   enableAutoUnmount(afterEach)
@@ -10,6 +11,15 @@ describe('form-file', () => {
       props: {size: 'lg'},
     })
 
+    const $zone = wrapper.find('.b-form-file')
+    expect($zone.classes()).toContain('form-control-lg')
+  })
+
+  it('input element has class form-control-{type} when prop size and prop plain', () => {
+    const wrapper = mount(BFormFile, {
+      props: {size: 'lg', plain: true},
+    })
+
     const $input = wrapper.find('input')
     expect($input.classes()).toContain('form-control-lg')
   })
@@ -415,4 +425,230 @@ describe('form-file', () => {
       expect(em && (em[0][0] as File[])[1]).toStrictEqual(file2)
     })
   })
+
+  const createFile = (name: string, size = 3, type = 'text/plain') =>
+    new File(['x'.repeat(size)], name, {type, lastModified: Date.now()})
+
+  describe('drop zone', () => {
+    const createFileEntry = (file: File, fullPath = `/${file.name}`) => ({
+      isFile: true,
+      isDirectory: false,
+      fullPath,
+      file: (resolve: (value: File) => void) => resolve(file),
+    })
+
+    const createDirectoryEntry = (entries: unknown[]) => ({
+      isFile: false,
+      isDirectory: true,
+      createReader: () => {
+        let read = false
+        return {
+          readEntries: (resolve: (value: unknown[]) => void) => {
+            resolve(read ? [] : entries)
+            read = true
+          },
+        }
+      },
+    })
+
+    const createItem = (entry: unknown, file: File | null = null) => ({
+      kind: 'file',
+      getAsFile: () => file,
+      webkitGetAsEntry: () => entry,
+    })
+
+    it('renders a drop zone with a browse button and a placeholder', () => {
+      const wrapper = mount(BFormFile)
+      const $zone = wrapper.get('.b-form-file')
+      expect($zone.classes()).toContain('form-control')
+      expect(wrapper.get('input').classes()).toContain('visually-hidden')
+      expect(wrapper.get('.b-form-file-button').text()).toBe('Browse')
+      expect(wrapper.get('.b-form-file-text').text()).toBe('No file chosen')
+    })
+
+    it('does not render the browse button when prop noButton', () => {
+      const wrapper = mount(BFormFile, {props: {noButton: true}})
+      expect(wrapper.find('.b-form-file-button').exists()).toBe(false)
+    })
+
+    it('renders only the input when prop plain', () => {
+      const wrapper = mount(BFormFile, {props: {plain: true}})
+      expect(wrapper.find('.b-form-file').exists()).toBe(false)
+      expect(wrapper.get('input').classes()).not.toContain('visually-hidden')
+    })
+
+    it('sets the class on the drop zone', () => {
+      const wrapper = mount(BFormFile, {attrs: {class: 'foo'}})
+      expect(wrapper.get('.b-form-file').classes()).toContain('foo')
+      expect(wrapper.get('input').classes()).not.toContain('foo')
+    })
+
+    it('lists the selected files with their name and size', () => {
+      const wrapper = mount(BFormFile, {
+        props: {multiple: true, modelValue: [createFile('foo.txt', 1500), createFile('bar.txt')]},
+      })
+      const $items = wrapper.findAll('.b-form-file-item')
+      expect($items).toHaveLength(2)
+      expect($items[0].get('.b-form-file-name').text()).toBe('foo.txt')
+      expect($items[0].get('.b-form-file-size').text()).toBe(
+        new Intl.NumberFormat(undefined, {
+          style: 'unit',
+          unit: 'kilobyte',
+          unitDisplay: 'short',
+          maximumFractionDigits: 1,
+        }).format(1.5)
+      )
+      expect(wrapper.find('.b-form-file-text').text()).toBe('')
+    })
+
+    it('formats the file names with prop fileNameFormatter', () => {
+      const wrapper = mount(BFormFile, {
+        props: {
+          modelValue: createFile('foo.txt'),
+          fileNameFormatter: (file: Readonly<File>) => file.name.toUpperCase(),
+        },
+      })
+      expect(wrapper.get('.b-form-file-name').text()).toBe('FOO.TXT')
+    })
+
+    it('renders the file-name slot', () => {
+      const wrapper = mount(BFormFile, {
+        props: {modelValue: createFile('foo.txt')},
+        slots: {'file-name': ({name, size}: {name: string; size: string}) => `${name} (${size})`},
+      })
+      expect(wrapper.get('.b-form-file-item').text()).toContain('foo.txt (3 byte')
+    })
+
+    it('removes a file with its remove button', async () => {
+      const foo = createFile('foo.txt')
+      const bar = createFile('bar.txt')
+      const wrapper = mount(BFormFile, {props: {multiple: true, modelValue: [foo, bar]}})
+      await wrapper.findAll('.b-form-file-remove')[0].trigger('click')
+      expect(wrapper.emitted('update:modelValue')?.[0][0]).toEqual([bar])
+    })
+
+    it('has the dragging class while files are dragged over it', async () => {
+      const wrapper = mount(BFormFile)
+      const $zone = wrapper.get('.b-form-file')
+      await $zone.trigger('dragover')
+      expect($zone.classes()).toContain('b-form-file-dragging')
+      expect(wrapper.get('.b-form-file-text').text()).toBe('Drop files here')
+      await $zone.trigger('dragleave')
+      expect($zone.classes()).not.toContain('b-form-file-dragging')
+    })
+
+    it('selects the dropped files', async () => {
+      const file = createFile('foo.txt')
+      const wrapper = mount(BFormFile)
+      await wrapper.get('.b-form-file').trigger('drop', {dataTransfer: {files: [file], items: []}})
+      await flushPromises()
+      expect(wrapper.emitted('update:modelValue')?.[0][0]).toStrictEqual(file)
+    })
+
+    it('reads the files of dropped directories', async () => {
+      const foo = createFile('foo.txt')
+      const bar = createFile('bar.txt')
+      const baz = createFile('baz.txt')
+      const directory = createDirectoryEntry([
+        createFileEntry(bar, '/dir/bar.txt'),
+        createDirectoryEntry([createFileEntry(baz, '/dir/sub/baz.txt')]),
+      ])
+      const wrapper = mount(BFormFile, {props: {multiple: true}})
+      await wrapper.get('.b-form-file').trigger('drop', {
+        dataTransfer: {
+          files: [],
+          items: [createItem(createFileEntry(foo), foo), createItem(directory)],
+        },
+      })
+      await flushPromises()
+      expect(wrapper.emitted('update:modelValue')?.[0][0]).toEqual([foo, bar, baz])
+      await wrapper.setProps({modelValue: [foo, bar, baz]})
+      expect(wrapper.findAll('.b-form-file-name').map((el) => el.text())).toEqual([
+        'foo.txt',
+        'dir/bar.txt',
+        'dir/sub/baz.txt',
+      ])
+    })
+
+    it('reports the dropped directories that can not be read', async () => {
+      const directory = {
+        isFile: false,
+        isDirectory: true,
+        createReader: () => ({
+          readEntries: (_: unknown, reject: (error: Error) => void) => reject(new Error('gone')),
+        }),
+      }
+      const wrapper = mount(BFormFile, {props: {multiple: true}})
+      await wrapper.get('.b-form-file').trigger('drop', {
+        dataTransfer: {files: [], items: [createItem(directory)]},
+      })
+      await flushPromises()
+      expect(wrapper.emitted('update:modelValue')).toBeUndefined()
+      expect(wrapper.get('.invalid-feedback').text()).toBe('The dropped files could not be read')
+    })
+
+    it('skips dropped directories when prop noTraverse', async () => {
+      const foo = createFile('foo.txt')
+      const directory = createDirectoryEntry([createFileEntry(createFile('bar.txt'))])
+      const wrapper = mount(BFormFile, {props: {multiple: true, noTraverse: true}})
+      await wrapper.get('.b-form-file').trigger('drop', {
+        dataTransfer: {
+          files: [],
+          items: [createItem(createFileEntry(foo), foo), createItem(directory)],
+        },
+      })
+      await flushPromises()
+      expect(wrapper.emitted('update:modelValue')?.[0][0]).toEqual([foo])
+    })
+
+    it('ignores drops when prop noDrop', async () => {
+      const wrapper = mount(BFormFile, {props: {noDrop: true}})
+      const $zone = wrapper.get('.b-form-file')
+      await $zone.trigger('dragover')
+      expect($zone.classes()).not.toContain('b-form-file-dragging')
+      await $zone.trigger('drop', {dataTransfer: {files: [createFile('foo.txt')], items: []}})
+      await flushPromises()
+      expect(wrapper.emitted('update:modelValue')).toBeUndefined()
+    })
+  })
+
+  describe('validation', () => {
+    const drop = async (wrapper: ReturnType<typeof mount>, files: File[]) => {
+      await wrapper.get('.b-form-file').trigger('drop', {dataTransfer: {files, items: []}})
+      await flushPromises()
+    }
+
+    it('rejects the files that do not match prop accept', async () => {
+      const wrapper = mount(BFormFile, {props: {multiple: true, accept: ['image/*', '.pdf']}})
+      const image = createFile('foo.png', 3, 'image/png')
+      const pdf = createFile('bar.PDF', 3, 'application/pdf')
+      await drop(wrapper, [image, createFile('baz.txt'), pdf])
+      expect(wrapper.emitted('update:modelValue')?.[0][0]).toEqual([image, pdf])
+      expect(wrapper.get('.invalid-feedback').text()).toBe('File type not accepted: baz.txt')
+    })
+
+    it('rejects the files larger than prop maxSize', async () => {
+      const wrapper = mount(BFormFile, {props: {maxSize: 5}})
+      await drop(wrapper, [createFile('foo.txt', 10)])
+      expect(wrapper.emitted('update:modelValue')).toBeUndefined()
+      expect(wrapper.get('.invalid-feedback').text()).toBe('File too large: foo.txt')
+    })
+
+    it('rejects the files beyond prop maxFiles', async () => {
+      const wrapper = mount(BFormFile, {props: {multiple: true, maxFiles: 2}})
+      const files = [createFile('foo.txt'), createFile('bar.txt'), createFile('baz.txt')]
+      await drop(wrapper, files)
+      expect(wrapper.emitted('update:modelValue')?.[0][0]).toEqual(files.slice(0, 2))
+      expect(wrapper.get('.invalid-feedback').text()).toBe('Too many files: baz.txt')
+    })
+
+    it('clears the feedback on reset', async () => {
+      const wrapper = mount(BFormFile, {props: {maxSize: 5}})
+      await drop(wrapper, [createFile('foo.txt', 10)])
+      expect(wrapper.find('.invalid-feedback').exists()).toBe(true)
+      ;(wrapper.vm as unknown as {reset: () => void}).reset()
+      await nextTick()
+      expect(wrapper.find('.invalid-feedback').exists()).toBe(false)
+    })
+  })
 })
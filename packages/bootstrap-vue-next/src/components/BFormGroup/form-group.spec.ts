@@ -1,5 +1,5 @@
 import {afterEach, describe, expect, it} from 'vitest'
-import {enableAutoUnmount, mount} from '@vue/test-utils'
+import {enableAutoUnmount, flushPromises, mount} from '@vue/test-utils'
 import BFormGroup from './BFormGroup.vue'
 import {h, nextTick} from 'vue'
 import BFormInput from '../BFormInput/BFormInput.vue'
@@ -438,4 +438,47 @@ describe('form-group', () => {
       })
     })
   })
+
+  describe('rules', () => {
+    it('validates the value of its control and shows the error as invalid feedback', async () => {
+      const wrapper = mount(BFormGroup, {
+        props: {rules: {min: 3}},
+        slots: {default: () => h(BFormInput, {modelValue: 'abcd'})},
+      })
+      // The group renders a div instead of a fieldset once the input is registered
+      await nextTick()
+      const input = wrapper.get('input')
+      expect(wrapper.find('.invalid-feedback').exists()).toBe(false)
+      await input.setValue('ab')
+      await flushPromises()
+      expect(wrapper.classes()).toContain('is-invalid')
+      expect(wrapper.get('.invalid-feedback').text()).toBe('Must be at least 3 characters')
+      expect(input.classes()).toContain('is-invalid')
+      expect(input.attributes('aria-invalid')).toBe('true')
+    })
+
+    it('shows the errors of the rules of its control', async () => {
+      const wrapper = mount(BFormGroup, {
+        slots: {default: () => h(BFormInput, {rules: {required: true}, modelValue: 'Ada'})},
+      })
+      await nextTick()
+      await wrapper.get('input').setValue('')
+      await flushPromises()
+      expect(wrapper.classes()).toContain('is-invalid')
+      expect(wrapper.get('.invalid-feedback').text()).toBe('This field is required')
+    })
+
+    it('prefers the invalidFeedback and state props', async () => {
+      const wrapper = mount(BFormGroup, {
+        props: {rules: {required: true}, invalidFeedback: 'Please enter a name', state: null},
+        slots: {default: () => h(BFormInput, {modelValue: 'Ada'})},
+      })
+      await nextTick()
+      await wrapper.get('input').setValue('')
+      await flushPromises()
+      expect(wrapper.get('.invalid-feedback').text()).toBe('Please enter a name')
+      await wrapper.setProps({state: true})
+      expect(wrapper.classes()).toContain('is-valid')
+    })
+  })
 })
@@ -0,0 +1,250 @@
+import {enableAutoUnmount, mount} from '@vue/test-utils'
+import {afterEach, describe, expect, it} from 'vitest'
+import BFormInput from './BFormInput.vue'
+import {nextTick} from 'vue'
+
+describe('form-input', () => {
+  enableAutoUnmount(afterEach)
+
+  describe('mask', () => {
+    const phoneMask = '(###) ###-####'
+
+    it('masks the value as it is typed', async () => {
+      const wrapper = mount(BFormInput, {props: {mask: phoneMask}})
+      const input = wrapper.get('input')
+      await input.setValue('555123')
+      expect(input.element.value).toBe('(555) 123')
+      expect(wrapper.emitted('update:modelValue')?.at(-1)).toEqual(['(555) 123'])
+      await input.setValue('(555) 123-45678')
+      expect(input.element.value).toBe('(555) 123-4567')
+    })
+
+    it('skips the characters that do not fit the pattern', async () => {
+      const wrapper = mount(BFormInput, {props: {mask: 'AA## ####'}})
+      const input = wrapper.get('input')
+      await input.setValue('g-b 1 2x3456')
+      expect(input.element.value).toBe('gb12 3456')
+    })
+
+    it('masks the initial value', () => {
+      const wrapper = mount(BFormInput, {props: {mask: phoneMask, modelValue: '5551234567'}})
+      expect(wrapper.get('input').element.value).toBe('(555) 123-4567')
+    })
+
+    it('binds the unmasked value with the unmasked modifier', async () => {
+      const wrapper = mount(BFormInput, {
+        props: {mask: phoneMask, modelValue: '', modelModifiers: {unmasked: true}},
+      })
+      const input = wrapper.get('input')
+      await input.setValue('5551234')
+      expect(input.element.value).toBe('(555) 123-4')
+      expect(wrapper.emitted('update:modelValue')?.at(-1)).toEqual(['5551234'])
+    })
+
+    it('emits the masked and the unmasked value', async () => {
+      const wrapper = mount(BFormInput, {props: {mask: phoneMask}})
+      await wrapper.get('input').setValue('5551')
+      expect(wrapper.emitted('masked')?.at(-1)).toEqual(['(555) 1', '5551'])
+    })
+
+    it('supports a function that returns the pattern', async () => {
+      const wrapper = mount(BFormInput, {
+        props: {
+          mask: (value: string) =>
+            /^3[47]/.test(value) ? '#### ###### #####' : '#### #### #### ####',
+        },
+      })
+      const input = wrapper.get('input')
+      await input.setValue('378282246310005')
+      expect(input.element.value).toBe('3782 822463 10005')
+      await input.setValue('4111111111111111')
+      expect(input.element.value).toBe('4111 1111 1111 1111')
+    })
+
+    it('keeps a typed character that equals a leading literal', async () => {
+      const wrapper = mount(BFormInput, {props: {mask: '+1 (###) ###-####'}})
+      const input = wrapper.get('input')
+      await input.setValue('1')
+      expect(input.element.value).toBe('+1 (1')
+      await input.setValue('+1 (15')
+      expect(input.element.value).toBe('+1 (15')
+      await input.setValue('+1 155')
+      expect(input.element.value).toBe('+1 (155')
+    })
+
+    it('inserts escaped token characters as they are', async () => {
+      const wrapper = mount(BFormInput, {props: {mask: '\\#####'}})
+      const input = wrapper.get('input')
+      await input.setValue('1234')
+      expect(input.element.value).toBe('#1234')
+    })
+
+    it('keeps the caret after the same characters', async () => {
+      const wrapper = mount(BFormInput, {attachTo: document.body, props: {mask: phoneMask}})
+      const input = wrapper.get('input')
+      await input.setValue('(555) 123')
+      // Types 9 after 555
+      input.element.value = '(5559) 123'
+      input.element.setSelectionRange(5, 5)
+      input.element.focus()
+      await input.trigger('input')
+      expect(input.element.value).toBe('(555) 912-3')
+      expect(input.element.selectionStart).toBe(7)
+    })
+
+    it('updates the model on change with the lazy modifier', async () => {
+      const wrapper = mount(BFormInput, {
+        props: {mask: phoneMask, modelModifiers: {lazy: true}},
+      })
+      const input = wrapper.get('input')
+      input.element.value = '5551234'
+      await input.trigger('input')
+      expect(input.element.value).toBe('(555) 123-4')
+      expect(wrapper.emitted('update:modelValue')).toBeUndefined()
+      await input.trigger('change')
+      expect(wrapper.emitted('update:modelValue')?.at(-1)).toEqual(['(555) 123-4'])
+    })
+  })
+
+  describe('numeric', () => {
+    // The focus of the input is only tracked once it is mounted
+    const mountNumeric = async (props: Record<string, unknown>) => {
+      const wrapper = mount(BFormInput, {
+        props: {
+          'numeric': true,
+          'locale': 'de-DE',
+          'modelValue': null,
+          'onUpdate:modelValue': (value: unknown) => wrapper.setProps({modelValue: value}),
+          ...props,
+        },
+        attachTo: document.body,
+      })
+      await nextTick()
+      return wrapper
+    }
+
+    it('renders a text input with a decimal keyboard', async () => {
+      const wrapper = await mountNumeric({min: 0, max: 10})
+      const input = wrapper.get('input')
+      expect(input.attributes('type')).toBe('text')
+      expect(input.attributes('inputmode')).toBe('decimal')
+      expect(input.attributes('min')).toBeUndefined()
+      expect(input.attributes('max')).toBeUndefined()
+    })
+
+    it('parses the number in the format of the locale', async () => {
+      const wrapper = await mountNumeric({})
+      const input = wrapper.get('input')
+      input.element.focus()
+      await nextTick()
+      await input.setValue('1.234,56')
+      expect(wrapper.props('modelValue')).toBe(1234.56)
+      expect(input.element.value).toBe('1.234,56')
+    })
+
+    it('formats the number once the input is left', async () => {
+      const wrapper = await mountNumeric({})
+      const input = wrapper.get('input')
+      input.element.focus()
+      await nextTick()
+      await input.setValue('1234,5')
+      input.element.blur()
+      await input.trigger('blur')
+      expect(input.element.value).toBe('1.234,5')
+    })
+
+    it('displays the number without grouping while focused', async () => {
+      const wrapper = await mountNumeric({modelValue: 1234.5})
+      const input = wrapper.get('input')
+      expect(input.element.value).toBe('1.234,5')
+      input.element.focus()
+      await nextTick()
+      expect(input.element.value).toBe('1234,5')
+    })
+
+    it('formats currencies', async () => {
+      const numberFormat = {style: 'currency', currency: 'EUR'} as const
+      const wrapper = await mountNumeric({modelValue: 1234.5, numberFormat})
+      expect(wrapper.get('input').element.value).toBe(
+        new Intl.NumberFormat('de-DE', numberFormat).format(1234.5)
+      )
+    })
+
+    it('binds the fraction of a percent', async () => {
+      const wrapper = await mountNumeric({
+        numberFormat: {style: 'percent', maximumFractionDigits: 1},
+      })
+      const input = wrapper.get('input')
+      input.element.focus()
+      await nextTick()
+      await input.setValue('12,5')
+      expect(wrapper.props('modelValue')).toBe(0.125)
+      input.element.blur()
+      await input.trigger('blur')
+      expect(input.element.value).toBe(
+        new Intl.NumberFormat('de-DE', {style: 'percent', maximumFractionDigits: 1}).format(0.125)
+      )
+    })
+
+    it('rounds to step and clamps to min and max on blur', async () => {
+      const wrapper = await mountNumeric({min: 0, max: 100, step: 0.5})
+      const input = wrapper.get('input')
+      input.element.focus()
+      await nextTick()
+      await input.setValue('12,3')
+      await input.trigger('blur')
+      expect(wrapper.props('modelValue')).toBe(12.5)
+      await input.setValue('150')
+      await input.trigger('blur')
+      expect(wrapper.props('modelValue')).toBe(100)
+    })
+
+    it('binds null when the input is empty', async () => {
+      const wrapper = await mountNumeric({modelValue: 5})
+      const input = wrapper.get('input')
+      input.element.focus()
+      await nextTick()
+      await input.setValue('')
+      expect(wrapper.props('modelValue')).toBeNull()
+    })
+
+    it('only accepts a minus sign before the digits', async () => {
+      const wrapper = await mountNumeric({})
+      const input = wrapper.get('input')
+      input.element.focus()
+      await nextTick()
+      await input.setValue('-1,5')
+      expect(wrapper.props('modelValue')).toBe(-1.5)
+      await input.setValue('1-2')
+      expect(wrapper.props('modelValue')).toBe(12)
+    })
+
+    it('ignores the wheel unless wheel is set', async () => {
+      const wrapper = await mountNumeric({modelValue: 4, step: 2})
+      const input = wrapper.get('input')
+      input.element.focus()
+      await nextTick()
+      await input.trigger('wheel', {deltaY: -100})
+      expect(wrapper.props('modelValue')).toBe(4)
+      await wrapper.setProps({wheel: true})
+      await input.trigger('wheel', {deltaY: -100})
+      expect(wrapper.props('modelValue')).toBe(6)
+      expect(input.element.value).toBe('6')
+    })
+  })
+
+  describe('noWheel', () => {
+    it('blurs a focused input on wheel', async () => {
+      const wrapper = mount(BFormInput, {
+        props: {type: 'number', noWheel: true},
+        attachTo: document.body,
+      })
+      await nextTick()
+      const input = wrapper.get('input')
+      input.element.focus()
+      await nextTick()
+      await input.trigger('wheel', {deltaY: -100})
+      expect(document.activeElement).not.toBe(input.element)
+    })
+  })
+})
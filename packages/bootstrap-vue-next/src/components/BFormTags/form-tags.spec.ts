@@ -1,6 +1,7 @@
-import {enableAutoUnmount, mount} from '@vue/test-utils'
-import {afterEach, describe, expect, it} from 'vitest'
+import {enableAutoUnmount, flushPromises, mount} from '@vue/test-utils'
+import {afterEach, describe, expect, it, vi} from 'vitest'
 import BFormTags from './BFormTags.vue'
+import {nextTick} from 'vue'
 
 // Add unit testing only for limitTag
 describe('form-tags', () => {
@@ -25,4 +26,145 @@ describe('form-tags', () => {
       expect($smallElement.text()).toBe('Foo')
     })
   })
+
+  describe('suggestions', () => {
+    const users = [
+      {value: 'u1', text: 'Ada Lovelace'},
+      {value: 'u2', text: 'Alan Turing'},
+      {value: 'u3', text: 'Grace Hopper', disabled: true},
+    ]
+
+    const type = async (wrapper: ReturnType<typeof mount>, value: string) => {
+      const input = wrapper.get('input')
+      ;(input.element as HTMLInputElement).value = value
+      await input.trigger('input')
+    }
+
+    it('lists the suggestions that match the input with the match highlighted', async () => {
+      const wrapper = mount(BFormTags, {
+        props: {suggestions: ['apple', 'banana', 'pineapple']},
+      })
+      expect(wrapper.find('[role="listbox"]').exists()).toBe(false)
+      await type(wrapper, 'APP')
+      const options = wrapper.findAll('[role="option"]')
+      expect(options.map((option) => option.text())).toEqual(['apple', 'pineapple'])
+      expect(options[1].get('mark').text()).toBe('app')
+      expect(wrapper.get('input').attributes('aria-expanded')).toBe('true')
+    })
+
+    it('displays the text of the option and adds its value', async () => {
+      const wrapper = mount(BFormTags, {
+        props: {
+          'suggestions': users,
+          'modelValue': [],
+          'onUpdate:modelValue': (value: string[]) => wrapper.setProps({modelValue: value}),
+        },
+      })
+      await type(wrapper, 'tur')
+      await wrapper.get('[role="option"]').trigger('click')
+      expect(wrapper.props('modelValue')).toEqual(['u2'])
+      expect(wrapper.get('.b-form-tag').text()).toContain('Alan Turing')
+      expect(wrapper.find('[role="listbox"]').exists()).toBe(false)
+    })
+
+    it('navigates the suggestions with the keyboard and skips disabled options', async () => {
+      const wrapper = mount(BFormTags, {props: {suggestions: users}})
+      await nextTick()
+      await type(wrapper, 'a')
+      const input = wrapper.get('input')
+      expect(wrapper.findAll('[role="option"]')).toHaveLength(3)
+      await input.trigger('keydown', {key: 'ArrowUp'})
+      expect(wrapper.findAll('[role="option"]')[1].classes()).toContain('active')
+      expect(input.attributes('aria-activedescendant')).toBe(
+        wrapper.findAll('[role="option"]')[1].attributes('id')
+      )
+      await input.trigger('keydown', {key: 'ArrowDown'})
+      expect(wrapper.findAll('[role="option"]')[0].classes()).toContain('active')
+      await input.trigger('keydown', {key: 'Enter'})
+      expect(wrapper.emitted('update:modelValue')?.[0]).toEqual([['u1']])
+    })
+
+    it('closes the suggestions with Escape', async () => {
+      const wrapper = mount(BFormTags, {props: {suggestions: users}})
+      await nextTick()
+      await type(wrapper, 'a')
+      await wrapper.get('input').trigger('keydown', {key: 'Escape'})
+      expect(wrapper.find('[role="listbox"]').exists()).toBe(false)
+    })
+
+    it('debounces an async source and ignores stale results', async () => {
+      vi.useFakeTimers()
+      const source = vi.fn((query: string) => Promise.resolve([`${query}-1`, `${query}-2`]))
+      const wrapper = mount(BFormTags, {
+        props: {suggestions: source, suggestionsDebounce: 100},
+      })
+      await type(wrapper, 'a')
+      await type(wrapper, 'ab')
+      await vi.advanceTimersByTimeAsync(100)
+      vi.useRealTimers()
+      await nextTick()
+      expect(source).toHaveBeenCalledTimes(1)
+      expect(source).toHaveBeenCalledWith('ab')
+      expect(wrapper.findAll('[role="option"]').map((option) => option.text())).toEqual([
+        'ab-1',
+        'ab-2',
+      ])
+    })
+
+    it('closes the listbox when the async source rejects', async () => {
+      const source = vi
+        .fn<(query: string) => Promise<string[]>>()
+        .mockResolvedValueOnce(['a-1'])
+        .mockRejectedValueOnce(new Error('failed'))
+      const wrapper = mount(BFormTags, {props: {suggestions: source, suggestionsDebounce: 0}})
+      await type(wrapper, 'a')
+      await flushPromises()
+      expect(wrapper.findAll('[role="option"]')).toHaveLength(1)
+      await type(wrapper, 'ab')
+      await flushPromises()
+      expect(wrapper.find('[role="listbox"]').exists()).toBe(false)
+    })
+
+    it('only adds tags that match a suggestion when restrictToSuggestions is set', async () => {
+      const wrapper = mount(BFormTags, {
+        props: {suggestions: users, restrictToSuggestions: true, modelValue: []},
+      })
+      await nextTick()
+      await type(wrapper, 'Linus')
+      await wrapper.get('input').trigger('keydown', {key: 'Enter'})
+      expect(wrapper.emitted('update:modelValue')?.[0]).toEqual([[]])
+      await type(wrapper, 'ada lovelace')
+      await wrapper.get('input').trigger('keydown', {key: 'Enter'})
+      expect(wrapper.emitted('update:modelValue')?.[1]).toEqual([['u1']])
+    })
+
+    it('checks a tag against the suggestions of its own text with an async source', async () => {
+      vi.useFakeTimers()
+      const source = vi.fn((query: string) =>
+        Promise.resolve(users.filter((user) => user.text.toLowerCase().startsWith(query)))
+      )
+      const wrapper = mount(BFormTags, {
+        props: {suggestions: source, suggestionsDebounce: 100, restrictToSuggestions: true},
+      })
+      await type(wrapper, 'ada')
+      await vi.advanceTimersByTimeAsync(100)
+      // The suggestions of `ada` are still shown while those of the typed text are debounced
+      await type(wrapper, 'alan turing')
+      await wrapper.get('input').trigger('keydown', {key: 'Enter'})
+      await vi.advanceTimersByTimeAsync(0)
+      vi.useRealTimers()
+      expect(source).toHaveBeenLastCalledWith('alan turing')
+      expect(wrapper.emitted('update:modelValue')?.[0]).toEqual([['u2']])
+    })
+
+    it('does not suggest tags that are already selected', async () => {
+      const wrapper = mount(BFormTags, {
+        props: {suggestions: ['apple', 'pineapple'], modelValue: ['apple']},
+      })
+      await type(wrapper, 'app')
+      expect(wrapper.findAll('[role="option"]').map((option) => option.text())).toEqual([
+        'pineapple',
+      ])
+    })
+  })
 })
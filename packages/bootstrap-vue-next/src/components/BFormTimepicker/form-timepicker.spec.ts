@@ -0,0 +1,126 @@
+import {enableAutoUnmount, mount} from '@vue/test-utils'
+import {afterEach, describe, expect, it, vi} from 'vitest'
+import BFormTimepicker from './BFormTimepicker.vue'
+import BForm from '../BForm/BForm.vue'
+import BFormGroup from '../BFormGroup/BFormGroup.vue'
+import BInputGroup from '../BInputGroup/BInputGroup.vue'
+import BTime from '../BTime/BTime.vue'
+import {h, nextTick} from 'vue'
+
+// The dropdown is shown and hidden with a timeout after the next animation frame
+const waitForDropdown = async () => {
+  await new Promise((resolve) => requestAnimationFrame(resolve))
+  await new Promise((resolve) => setTimeout(resolve))
+  await nextTick()
+}
+
+describe('form-timepicker', () => {
+  enableAutoUnmount(afterEach)
+
+  it('has static class b-form-timepicker', () => {
+    const wrapper = mount(BFormTimepicker)
+    expect(wrapper.classes()).toContain('b-form-timepicker')
+    expect(wrapper.classes()).toContain('form-control')
+  })
+
+  it('shows the placeholder when there is no value', () => {
+    const wrapper = mount(BFormTimepicker, {
+      props: {placeholder: 'Pick a time'},
+    })
+    expect(wrapper.get('.b-form-timepicker-toggle').text()).toBe('Pick a time')
+  })
+
+  it('shows the value formatted with the locale', () => {
+    const wrapper = mount(BFormTimepicker, {
+      props: {modelValue: '13:45:00', locale: 'en-US'},
+    })
+    expect(wrapper.get('.b-form-timepicker-toggle').text()).toBe('1:45 PM')
+    const de = mount(BFormTimepicker, {
+      props: {modelValue: '13:45:30', locale: 'de-DE', showSeconds: true},
+    })
+    expect(de.get('.b-form-timepicker-toggle').text()).toBe('13:45:30')
+  })
+
+  it('opens the time selector in a dropdown', async () => {
+    const wrapper = mount(BFormTimepicker, {
+      props: {modelValue: '13:45:00'},
+    })
+    const toggle = wrapper.get('.b-form-timepicker-toggle')
+    expect(toggle.attributes('aria-expanded')).toBe('false')
+    await toggle.trigger('click')
+    await waitForDropdown()
+    expect(toggle.attributes('aria-expanded')).toBe('true')
+    expect(wrapper.get('.dropdown-menu').attributes('role')).toBe('dialog')
+    expect(wrapper.findComponent(BTime).props('modelValue')).toBe('13:45:00')
+  })
+
+  it('updates the value from the time selector', async () => {
+    const wrapper = mount(BFormTimepicker, {
+      props: {modelValue: '13:45:00'},
+    })
+    wrapper.findComponent(BTime).vm.$emit('update:modelValue', '08:15:00')
+    expect(wrapper.emitted('update:modelValue')?.[0]).toEqual(['08:15:00'])
+  })
+
+  it('selects the current time with the now button', async () => {
+    vi.useFakeTimers({now: new Date(2024, 2, 15, 9, 7, 42), toFake: ['Date']})
+    const wrapper = mount(BFormTimepicker, {
+      props: {nowButton: true, showSeconds: true},
+    })
+    await wrapper.get('.b-form-timepicker-footer button').trigger('click')
+    vi.useRealTimers()
+    expect(wrapper.emitted('update:modelValue')?.[0]).toEqual(['09:07:42'])
+  })
+
+  it('resets the value with the reset button', async () => {
+    const wrapper = mount(BFormTimepicker, {
+      props: {modelValue: '13:45:00', resetButton: true},
+    })
+    await wrapper.get('.b-form-timepicker-footer button').trigger('click')
+    expect(wrapper.emitted('update:modelValue')?.[0]).toEqual([null])
+  })
+
+  it('renders a hidden input when name is set', () => {
+    const wrapper = mount(BFormTimepicker, {
+      props: {modelValue: '13:45:00', name: 'time'},
+    })
+    expect(wrapper.get('input[type="hidden"]').attributes('name')).toBe('time')
+    expect(wrapper.get('input[type="hidden"]').element.value).toBe('13:45:00')
+  })
+
+  it('is disabled while its BForm is busy', () => {
+    const wrapper = mount(BForm, {
+      props: {busy: true},
+      slots: {default: () => h(BFormTimepicker, {modelValue: '13:45:00', resetButton: true})},
+    })
+    expect(wrapper.get('.b-form-timepicker').classes()).toContain('disabled')
+    expect(wrapper.getComponent(BTime).props('disabled')).toBe(true)
+    expect(wrapper.get('.b-form-timepicker-footer button').attributes('disabled')).toBeDefined()
+  })
+
+  it('has the state of the parent BFormGroup', () => {
+    const wrapper = mount(BFormGroup, {
+      props: {state: false},
+      slots: {default: () => h(BFormTimepicker)},
+    })
+    const timepicker = wrapper.get('.b-form-timepicker')
+    expect(timepicker.classes()).toContain('is-invalid')
+    expect(timepicker.attributes('aria-invalid')).toBe('true')
+  })
+
+  it('state prop overrides the parent BFormGroup', () => {
+    const wrapper = mount(BFormGroup, {
+      props: {state: false},
+      slots: {default: () => h(BFormTimepicker, {state: true})},
+    })
+    expect(wrapper.get('.b-form-timepicker').classes()).toContain('is-valid')
+  })
+
+  it('is a direct child of BInputGroup', () => {
+    const wrapper = mount(BInputGroup, {
+      props: {prepend: 'Time'},
+      slots: {default: () => h(BFormTimepicker)},
+    })
+    expect(wrapper.get('.input-group > .b-form-timepicker').exists()).toBe(true)
+  })
+})
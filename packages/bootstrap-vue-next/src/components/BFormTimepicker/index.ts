@@ -0,0 +1 @@
+export {default as BFormTimepicker} from './BFormTimepicker.vue'
@@ -1,5 +1,7 @@
 import {enableAutoUnmount, mount} from '@vue/test-utils'
-import {afterEach, describe, expect, it} from 'vitest'
+import {afterEach, describe, expect, it, vi} from 'vitest'
+import type {BvCellEditEvent} from '../../utils/classes'
+import {nextTick} from 'vue'
 import BTableLite from './BTableLite.vue'
 
 class Person {
@@ -528,4 +530,480 @@ describe('btablelite', () => {
       expect(wrapper.text()).not.toContain('foobar!')
     })
   })
+
+  describe('virtual', () => {
+    const manyItems = Array.from({length: 1000}, (_, i) => ({id: i, name: `Item ${i}`}))
+
+    it('renders only the visible window plus overscan', () => {
+      const wrapper = mount(BTableLite, {
+        props: {items: manyItems, virtual: true, virtualOverscan: 5},
+      })
+      const $rows = wrapper.findAll('tbody tr[data-virtual-index]')
+      expect($rows.length).toBe(6)
+      expect($rows[0].text()).toBe('0Item 0')
+    })
+
+    it('renders spacer rows for the rows that are not rendered', () => {
+      const wrapper = mount(BTableLite, {
+        props: {items: manyItems, virtual: true, virtualOverscan: 0, virtualRowHeight: 20},
+      })
+      const [$top, $bottom] = wrapper.findAll('tbody tr.b-table-virtual-spacer')
+      expect($top.get('td').attributes('style')).toContain('height: 0px')
+      expect($bottom.get('td').attributes('style')).toContain(`height: ${999 * 20}px`)
+    })
+
+    it('is wrapped in a sticky header scroll container', () => {
+      const wrapper = mount(BTableLite, {
+        props: {items: manyItems, virtual: true},
+      })
+      expect(wrapper.get('div').classes()).toContain('b-table-sticky-header')
+    })
+
+    it('sets aria-rowcount and aria-rowindex', () => {
+      const wrapper = mount(BTableLite, {
+        props: {items: manyItems, virtual: true},
+      })
+      expect(wrapper.get('table').attributes('aria-rowcount')).toBe('1001')
+      expect(wrapper.get('tbody tr[data-virtual-index]').attributes('aria-rowindex')).toBe('2')
+    })
+
+    it('renders the rows for the scroll position and emits absolute indexes', async () => {
+      const wrapper = mount(BTableLite, {
+        props: {items: manyItems, virtual: true, virtualOverscan: 0, virtualRowHeight: 20},
+      })
+      await nextTick()
+      const $container = wrapper.get('div').element as HTMLElement
+      Object.defineProperty($container, 'clientHeight', {configurable: true, value: 100})
+      Object.defineProperty($container, 'scrollTop', {configurable: true, value: 2000})
+      $container.dispatchEvent(new Event('scroll'))
+      await nextTick()
+      const $rows = wrapper.findAll('tbody tr[data-virtual-index]')
+      expect($rows[0].attributes('data-virtual-index')).toBe('100')
+      expect($rows.length).toBe(6)
+      await $rows[1].trigger('click')
+      expect(wrapper.emitted('row-clicked')?.[0][1]).toBe(101)
+    })
+
+    it('keeps rendering the frozen rows above the window', async () => {
+      const wrapper = mount(BTableLite, {
+        props: {
+          items: manyItems,
+          virtual: true,
+          virtualOverscan: 0,
+          virtualRowHeight: 20,
+          frozenRows: 2,
+        },
+      })
+      await nextTick()
+      const $container = wrapper.get('div').element as HTMLElement
+      Object.defineProperty($container, 'clientHeight', {configurable: true, value: 100})
+      Object.defineProperty($container, 'scrollTop', {configurable: true, value: 2000})
+      $container.dispatchEvent(new Event('scroll'))
+      await nextTick()
+      const $rows = wrapper.findAll('tbody tr')
+      expect($rows.slice(0, 3).map((el) => el.attributes('data-virtual-index'))).toEqual([
+        '0',
+        '1',
+        undefined,
+      ])
+      expect($rows[0].classes()).toContain('b-table-frozen-row')
+      expect($rows[2].classes()).toContain('b-table-virtual-spacer')
+      expect($rows[2].get('td').attributes('style')).toContain(`height: ${98 * 20}px`)
+      expect($rows[3].attributes('data-virtual-index')).toBe('100')
+    })
+
+    it('does not render spacer rows when not virtual', () => {
+      const wrapper = mount(BTableLite, {
+        props: {items: manyItems.slice(0, 3)},
+      })
+      expect(wrapper.findAll('tbody tr.b-table-virtual-spacer').length).toBe(0)
+      expect(wrapper.findAll('tbody tr').length).toBe(3)
+    })
+  })
+
+  describe('cell editing', () => {
+    const editFields = [
+      {key: 'name', editable: true},
+      {key: 'id'},
+      {key: 'age', editable: true, editor: 'number' as const},
+    ]
+    const createItems = () => [
+      {id: 1, name: 'Alice', age: 30},
+      {id: 2, name: 'Bob', age: 40},
+    ]
+
+    it('starts editing an editable cell on dblclick', async () => {
+      const wrapper = mount(BTableLite, {
+        props: {items: createItems(), fields: editFields},
+      })
+      const [$name, $id] = wrapper.get('tbody tr').findAll('td')
+      await $id.trigger('dblclick')
+      expect(wrapper.find('input').exists()).toBe(false)
+      await $name.trigger('dblclick')
+      expect(wrapper.get('input').element.value).toBe('Alice')
+      expect(wrapper.emitted('cell-edit-start')?.[0].slice(1)).toEqual(['name', 0])
+    })
+
+    it('editable cells are focusable and start editing on enter', async () => {
+      const wrapper = mount(BTableLite, {
+        props: {items: createItems(), fields: editFields},
+      })
+      const [$name, $id] = wrapper.get('tbody tr').findAll('td')
+      expect($name.attributes('tabindex')).toBe('0')
+      expect($id.attributes('tabindex')).toBeUndefined()
+      await $name.trigger('keydown', {key: 'Enter'})
+      expect(wrapper.find('input').exists()).toBe(true)
+    })
+
+    it('commits the value on enter', async () => {
+      const items = createItems()
+      const wrapper = mount(BTableLite, {
+        props: {items, fields: editFields},
+      })
+      const $name = wrapper.get('tbody td')
+      await $name.trigger('dblclick')
+      const $input = wrapper.get('input')
+      await $input.setValue('Alicia')
+      await $input.trigger('keydown', {key: 'Enter'})
+      const [event] = wrapper.emitted('cell-edit-commit')?.[0] as [BvCellEditEvent]
+      expect(event.oldValue).toBe('Alice')
+      expect(event.newValue).toBe('Alicia')
+      expect(event.key).toBe('name')
+      // The value is written by the listener
+      expect(items[0].name).toBe('Alice')
+      expect(wrapper.find('input').exists()).toBe(false)
+    })
+
+    it('cancels the edit on escape', async () => {
+      const items = createItems()
+      const wrapper = mount(BTableLite, {
+        props: {items, fields: editFields},
+      })
+      await wrapper.get('tbody td').trigger('dblclick')
+      const $input = wrapper.get('input')
+      await $input.setValue('Alicia')
+      await $input.trigger('keydown', {key: 'Escape'})
+      expect(wrapper.emitted('cell-edit-cancel')?.[0].slice(1)).toEqual(['name', 0])
+      expect(wrapper.emitted('cell-edit-commit')).toBeUndefined()
+      expect(items[0].name).toBe('Alice')
+      expect(wrapper.find('input').exists()).toBe(false)
+    })
+
+    it('keeps the editor open when the commit is prevented', async () => {
+      const items = createItems()
+      const wrapper = mount(BTableLite, {
+        props: {
+          items,
+          fields: editFields,
+          onCellEditCommit: (event: BvCellEditEvent) => event.preventDefault(),
+        },
+      })
+      await wrapper.get('tbody td').trigger('dblclick')
+      const $input = wrapper.get('input')
+      await $input.setValue('')
+      await $input.trigger('keydown', {key: 'Enter'})
+      expect(items[0].name).toBe('Alice')
+      expect(wrapper.find('input').exists()).toBe(true)
+    })
+
+    it('moves to the next editable cell on tab, continuing on the next row', async () => {
+      const items = createItems()
+      const wrapper = mount(BTableLite, {
+        props: {items, fields: editFields},
+      })
+      await wrapper.get('tbody td').trigger('dblclick')
+      await wrapper.get('input').trigger('keydown', {key: 'Tab'})
+      // Skips the id column, which is not editable
+      expect(wrapper.emitted('cell-edit-start')?.[1].slice(1)).toEqual(['age', 0])
+      await wrapper.get('input').trigger('keydown', {key: 'Tab'})
+      expect(wrapper.emitted('cell-edit-start')?.[2].slice(1)).toEqual(['name', 1])
+      await wrapper.get('input').trigger('keydown', {key: 'Tab', shiftKey: true})
+      expect(wrapper.emitted('cell-edit-start')?.[3].slice(1)).toEqual(['age', 0])
+      expect(wrapper.emitted('cell-edit-commit')?.length).toBe(3)
+    })
+
+    it('number editor commits a number', async () => {
+      const items = createItems()
+      const wrapper = mount(BTableLite, {
+        props: {items, fields: editFields},
+      })
+      await wrapper.get('tbody tr').findAll('td')[2].trigger('dblclick')
+      const $input = wrapper.get('input')
+      expect($input.attributes('type')).toBe('number')
+      await $input.setValue('31')
+      await $input.trigger('keydown', {key: 'Enter'})
+      const [event] = wrapper.emitted('cell-edit-commit')?.[0] as [BvCellEditEvent]
+      expect(event.newValue).toBe(31)
+    })
+
+    it('select editor renders the options', async () => {
+      const wrapper = mount(BTableLite, {
+        props: {
+          items: createItems(),
+          fields: [
+            {key: 'name', editable: true, editor: {type: 'select', options: ['Alice', 'Bob']}},
+          ],
+        },
+      })
+      await wrapper.get('tbody td').trigger('dblclick')
+      const $options = wrapper.get('select').findAll('option')
+      expect($options.map(($option) => $option.text())).toEqual(['Alice', 'Bob'])
+    })
+
+    it('uses the edit() slot for custom editors', async () => {
+      const wrapper = mount(BTableLite, {
+        props: {items: createItems(), fields: editFields},
+        slots: {
+          'edit(name)': `<template #edit(name)="{value, updateValue, commit}">
+            <span class="custom-editor">{{ value }}</span>
+            <button @click="updateValue('Custom'); commit()">save</button>
+          </template>`,
+        },
+      })
+      await wrapper.get('tbody td').trigger('dblclick')
+      expect(wrapper.get('.custom-editor').text()).toBe('Alice')
+      await wrapper.get('button').trigger('click')
+      const [event] = wrapper.emitted('cell-edit-commit')?.[0] as [BvCellEditEvent]
+      expect(event.newValue).toBe('Custom')
+      expect(wrapper.find('.custom-editor').exists()).toBe(false)
+    })
+
+    it('supports editable as a function', async () => {
+      const wrapper = mount(BTableLite, {
+        props: {
+          items: createItems(),
+          fields: [{key: 'name', editable: (item: {id: number}) => item.id === 2}],
+        },
+      })
+      const [$first, $second] = wrapper.findAll('tbody td')
+      await $first.trigger('dblclick')
+      expect(wrapper.find('input').exists()).toBe(false)
+      await $second.trigger('dblclick')
+      expect(wrapper.find('input').exists()).toBe(true)
+    })
+  })
+
+  describe('row reordering', () => {
+    const items = [{name: 'a'}, {name: 'b'}, {name: 'c'}, {name: 'd'}]
+
+    const mockRowRects = (wrapper: ReturnType<typeof mount>) => {
+      wrapper.findAll('tbody tr[data-reorder-index]').forEach(($tr, i) => {
+        $tr.element.getBoundingClientRect = () => ({top: i * 40, height: 40}) as DOMRect
+      })
+    }
+
+    it('renders a drag handle in the first cell of every row when reorderable', () => {
+      const wrapper = mount(BTableLite, {props: {items, fields: ['name', 'id']}})
+      expect(wrapper.find('.b-table-reorder-handle').exists()).toBe(false)
+      const reorderable = mount(BTableLite, {
+        props: {items, fields: ['name', 'id'], reorderable: true},
+      })
+      const $handles = reorderable.findAll('.b-table-reorder-handle')
+      expect($handles).toHaveLength(4)
+      expect($handles[0].attributes('draggable')).toBe('true')
+      expect(reorderable.findAll('tbody tr')[0].findAll('td')[1].find('button').exists()).toBe(
+        false
+      )
+    })
+
+    it('displays a placeholder while dragging and emits row-reordered on drop', async () => {
+      const wrapper = mount(BTableLite, {props: {items, reorderable: true}})
+      mockRowRects(wrapper)
+      await wrapper.find('.b-table-reorder-handle').trigger('dragstart')
+      expect(wrapper.findAll('tbody tr')[0].classes()).toContain('b-table-row-dragging')
+      await wrapper.get('tbody').trigger('dragover', {clientY: 130})
+      const $rows = wrapper.findAll('tbody tr')
+      expect($rows[3].classes()).toContain('b-table-reorder-placeholder')
+      expect($rows[4].text()).toBe('d')
+      await wrapper.get('tbody').trigger('drop')
+      expect(wrapper.emitted('row-reordered')?.at(-1)).toEqual([0, 2, items[0]])
+      expect(wrapper.find('.b-table-reorder-placeholder').exists()).toBe(false)
+    })
+
+    it('displays the placeholder after the last row when dragging below it', async () => {
+      const wrapper = mount(BTableLite, {props: {items, reorderable: true}})
+      mockRowRects(wrapper)
+      await wrapper.find('.b-table-reorder-handle').trigger('dragstart')
+      await wrapper.get('tbody').trigger('dragover', {clientY: 500})
+      expect(wrapper.findAll('tbody tr').at(-1)?.classes()).toContain('b-table-reorder-placeholder')
+      await wrapper.get('tbody').trigger('drop')
+      expect(wrapper.emitted('row-reordered')?.at(-1)).toEqual([0, 3, items[0]])
+    })
+
+    it('does not emit when the row is dropped where it was', async () => {
+      const wrapper = mount(BTableLite, {props: {items, reorderable: true}})
+      mockRowRects(wrapper)
+      await wrapper.findAll('.b-table-reorder-handle')[1].trigger('dragstart')
+      await wrapper.get('tbody').trigger('dragover', {clientY: 50})
+      expect(wrapper.find('.b-table-reorder-placeholder').exists()).toBe(false)
+      await wrapper.get('tbody').trigger('drop')
+      expect(wrapper.emitted('row-reordered')).toBeUndefined()
+    })
+
+    it('asks for the adjacent page while the row is held at an edge', async () => {
+      vi.useFakeTimers()
+      const wrapper = mount(BTableLite, {props: {items: items.slice(0, 2), reorderable: true}})
+      mockRowRects(wrapper)
+      await wrapper.find('.b-table-reorder-handle').trigger('dragstart')
+      await wrapper.get('tbody').trigger('dragover', {clientY: window.innerHeight - 10})
+      await vi.advanceTimersByTimeAsync(300)
+      expect(wrapper.emitted('reorder-page')).toBeUndefined()
+      await vi.advanceTimersByTimeAsync(300)
+      expect(wrapper.emitted('reorder-page')).toEqual([[1]])
+      await wrapper.setProps({items: items.slice(2)})
+      mockRowRects(wrapper)
+      await wrapper.get('tbody').trigger('dragover', {clientY: 50})
+      expect(wrapper.findAll('tbody tr')[1].classes()).toContain('b-table-reorder-placeholder')
+      await wrapper.get('tbody').trigger('drop')
+      expect(wrapper.emitted('row-reordered')?.at(-1)).toEqual([-1, 1, items[0]])
+      vi.useRealTimers()
+    })
+
+    it('moves a row with the arrow keys on its handle', async () => {
+      const wrapper = mount(BTableLite, {
+        props: {items, reorderable: true},
+        attachTo: document.body,
+      })
+      const $handles = wrapper.findAll('.b-table-reorder-handle')
+      await $handles[0].trigger('keydown', {key: 'ArrowUp'})
+      expect(wrapper.emitted('row-reordered')).toBeUndefined()
+      await $handles[1].trigger('keydown', {key: 'ArrowDown'})
+      expect(wrapper.emitted('row-reordered')?.at(-1)).toEqual([1, 2, items[1]])
+      await wrapper.setProps({items: [items[0], items[2], items[1], items[3]]})
+      expect(document.activeElement).toBe(wrapper.findAll('.b-table-reorder-handle')[2].element)
+    })
+
+    it('does not emit row-clicked when the handle is clicked', async () => {
+      const wrapper = mount(BTableLite, {props: {items, reorderable: true}})
+      await wrapper.find('.b-table-reorder-handle').trigger('click')
+      expect(wrapper.emitted('row-clicked')).toBeUndefined()
+    })
+  })
+  describe('tbody transitions', () => {
+    const items = [
+      {id: 1, name: 'a'},
+      {id: 2, name: 'b'},
+      {id: 3, name: 'c'},
+    ]
+
+    it('calls the tbodyTransitionHandlers for the added rows', async () => {
+      const enter = vi.fn((_el: Element, done: () => void) => done())
+      const wrapper = mount(BTableLite, {
+        props: {items, primaryKey: 'id', tbodyTransitionHandlers: {enter}},
+        global: {stubs: {'transition-group': false}},
+      })
+      expect(enter).not.toHaveBeenCalled()
+      await wrapper.setProps({items: [...items, {id: 4, name: 'd'}]})
+      expect(enter).toHaveBeenCalledTimes(1)
+      expect((enter.mock.calls[0][0] as HTMLElement).textContent).toBe('4d')
+    })
+
+    it('keeps the rows of the items when they are moved', async () => {
+      const wrapper = mount(BTableLite, {
+        props: {items, primaryKey: 'id', tbodyTransitionProps: {name: 'flip'}},
+        global: {stubs: {'transition-group': false}},
+      })
+      const rows = wrapper.findAll('tbody tr').map((el) => el.element)
+      await wrapper.setProps({items: [...items].reverse()})
+      expect(wrapper.findAll('tbody tr').map((el) => el.element)).toEqual([...rows].reverse())
+    })
+  })
+  describe('sticky columns and frozen rows', () => {
+    const items = [
+      {a: 1, b: 2, c: 3, d: 4, e: 5},
+      {a: 6, b: 7, c: 8, d: 9, e: 10},
+      {a: 11, b: 12, c: 13, d: 14, e: 15},
+    ]
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('pins the columns with stickyColumn end to the trailing edge', () => {
+      const wrapper = mount(BTableLite, {
+        props: {items, fields: ['a', {key: 'e', stickyColumn: 'end'}], responsive: true},
+      })
+      const [th] = wrapper.findAll('thead th').slice(-1)
+      const [td] = wrapper.findAll('tbody tr:first-child td').slice(-1)
+      for (const cell of [th, td]) {
+        expect(cell.classes()).toContain('b-table-sticky-column')
+        expect(cell.classes()).toContain('b-table-sticky-column-end')
+      }
+      expect(wrapper.find('thead th').classes()).not.toContain('b-table-sticky-column')
+    })
+
+    it('offsets the sticky columns by the widths of the sticky columns before them', async () => {
+      vi.spyOn(HTMLElement.prototype, 'offsetWidth', 'get').mockImplementation(function (
+        this: HTMLElement
+      ) {
+        return this.tagName === 'TH' || this.tagName === 'TD' ? 100 + this.cellIndex * 10 : 0
+      })
+      const wrapper = mount(BTableLite, {
+        props: {
+          items,
+          fields: [
+            {key: 'a', stickyColumn: true},
+            {key: 'b', stickyColumn: 'start'},
+            'c',
+            {key: 'd', stickyColumn: 'end'},
+            {key: 'e', stickyColumn: 'end'},
+          ],
+          responsive: true,
+        },
+      })
+      await nextTick()
+      const styles = wrapper
+        .findAll('tbody tr:first-child td')
+        .map((el) => el.element.style.cssText.replace(/\s/g, ''))
+      expect(styles).toEqual([
+        'inset-inline-start:0px;',
+        'inset-inline-start:100px;',
+        '',
+        'inset-inline-end:140px;',
+        'inset-inline-end:0px;',
+      ])
+    })
+
+    it('measures the sticky columns again when the fields change', async () => {
+      vi.spyOn(HTMLElement.prototype, 'offsetWidth', 'get').mockImplementation(function (
+        this: HTMLElement
+      ) {
+        return this.tagName === 'TH' || this.tagName === 'TD' ? 100 : 0
+      })
+      const wrapper = mount(BTableLite, {
+        props: {items, fields: ['a', 'b'], responsive: true},
+      })
+      await nextTick()
+      await wrapper.setProps({
+        fields: [
+          {key: 'a', stickyColumn: true},
+          {key: 'b', stickyColumn: true},
+        ],
+      })
+      await nextTick()
+      expect(
+        wrapper.findAll('tbody tr:first-child td').map((el) => el.element.style.cssText)
+      ).toEqual(['inset-inline-start: 0px;', 'inset-inline-start: 100px;'])
+    })
+
+    it('offsets the frozen rows by the height of the sticky header and the rows above', async () => {
+      vi.spyOn(HTMLElement.prototype, 'offsetHeight', 'get').mockImplementation(function (
+        this: HTMLElement
+      ) {
+        return this.tagName === 'THEAD' ? 40 : this.tagName === 'TR' ? 30 : 0
+      })
+      const wrapper = mount(BTableLite, {
+        props: {items, fields: ['a'], stickyHeader: true, frozenRows: 2},
+      })
+      await nextTick()
+      const rows = wrapper.findAll('tbody tr')
+      expect(rows.map((el) => el.classes().includes('b-table-frozen-row'))).toEqual([
+        true,
+        true,
+        false,
+      ])
+      expect(rows[0].element.style.getPropertyValue('--b-table-frozen-row-top')).toBe('40px')
+      expect(rows[1].element.style.getPropertyValue('--b-table-frozen-row-top')).toBe('70px')
+    })
+  })
 })
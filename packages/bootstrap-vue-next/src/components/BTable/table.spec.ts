@@ -1,8 +1,17 @@
-import {enableAutoUnmount, mount} from '@vue/test-utils'
+import {enableAutoUnmount, flushPromises, mount} from '@vue/test-utils'
 import {afterEach, describe, expect, it, vi} from 'vitest'
 import BTable from './BTable.vue'
-import type {BTableSortBy, TableField, TableItem} from '../../types'
-import {nextTick} from 'vue'
+import type {
+  BTableProviderContext,
+  BTableSortBy,
+  BTableStateAdapter,
+  TableField,
+  TableItem,
+} from '../../types'
+import type {BvCellEditEvent} from '../../utils/classes'
+import {createFetchProvider} from '../../utils/createFetchProvider'
+import {nextTick, toRaw} from 'vue'
+import {createMemoryHistory, createRouter} from 'vue-router'
 
 interface SimplePerson {
   first_name: string
@@ -97,8 +106,8 @@ describe('structure', () => {
         props: {items: simpleItems, fields: simpleFields},
       })
       const heads = wrapper.get('table').findAll('th')
-      expect(heads[0].text()).toBe('First Name')
-      expect(heads[1].text()).toBe('Age')
+      expect(heads[0].text()).toBe('First Name (Click to sort ascending)')
+      expect(heads[1].text()).toBe('Age (Click to sort ascending)')
     })
 
     it('shows sortable columns when sortable === true', () => {
@@ -333,6 +342,127 @@ describe('single-sort', () => {
   })
 })
 
+describe('sort semantics', () => {
+  const column = (wrapper: ReturnType<typeof mount>) =>
+    wrapper
+      .get('tbody')
+      .findAll('tr')
+      .map((row) => row.find('td').text())
+
+  it('places empty values first when ascending and last when descending', async () => {
+    const items = [{value: 'b'}, {value: null}, {value: 'a'}, {value: undefined}]
+    const wrapper = mount(BTable, {
+      props: {
+        items,
+        fields: [{key: 'value', sortable: true}],
+        sortBy: [{key: 'value', order: 'asc'}],
+      },
+    })
+    expect(column(wrapper)).toEqual(['', '', 'a', 'b'])
+    await wrapper.setProps({sortBy: [{key: 'value', order: 'desc'}]})
+    expect(column(wrapper)).toEqual(['b', 'a', '', ''])
+  })
+
+  it('places empty values last in both orders with sortNullLast', async () => {
+    const items = [{value: 'b'}, {value: null}, {value: 'a'}]
+    const wrapper = mount(BTable, {
+      props: {
+        items,
+        fields: [{key: 'value', sortable: true}],
+        sortBy: [{key: 'value', order: 'asc'}],
+        sortNullLast: true,
+      },
+    })
+    expect(column(wrapper)).toEqual(['a', 'b', ''])
+    await wrapper.setProps({sortBy: [{key: 'value', order: 'desc'}]})
+    expect(column(wrapper)).toEqual(['b', 'a', ''])
+  })
+
+  it('compares dates, numbers and booleans by their value', () => {
+    const items = [
+      {date: new Date(2024, 0, 10), amount: 10, done: true},
+      {date: new Date(2023, 11, 31), amount: 9, done: false},
+      {date: new Date(2024, 0, 2), amount: -1, done: true},
+    ]
+    const wrapper = mount(BTable, {
+      props: {
+        items,
+        fields: [
+          {key: 'amount', sortable: true},
+          {key: 'date', sortable: true},
+          {key: 'done', sortable: true},
+        ],
+        sortBy: [
+          {key: 'done', order: 'asc'},
+          {key: 'date', order: 'asc'},
+        ],
+        multisort: true,
+      },
+    })
+    expect(column(wrapper)).toEqual(['9', '-1', '10'])
+  })
+
+  it('converts the values with sortType', async () => {
+    const items = [{value: '2024-01-10'}, {value: '2023-12-31'}, {value: 'not a date'}]
+    const wrapper = mount(BTable, {
+      props: {
+        items,
+        fields: [{key: 'value', sortable: true, sortType: 'date'}],
+        sortBy: [{key: 'value', order: 'desc'}],
+        sortNullLast: true,
+      },
+    })
+    expect(column(wrapper)).toEqual(['2024-01-10', '2023-12-31', 'not a date'])
+    await wrapper.setProps({
+      items: [{value: '1e3'}, {value: '200'}, {value: '30'}],
+      fields: [{key: 'value', sortable: true, sortType: 'number'}],
+    })
+    expect(column(wrapper)).toEqual(['1e3', '200', '30'])
+  })
+
+  it('collates strings with sortCompareLocale and sortCompareOptions', async () => {
+    const items = [{value: 'z'}, {value: 'ä'}, {value: 'a'}]
+    const wrapper = mount(BTable, {
+      props: {
+        items,
+        fields: [{key: 'value', sortable: true}],
+        sortBy: [{key: 'value', order: 'asc'}],
+        sortCompareLocale: 'de',
+      },
+    })
+    expect(column(wrapper)).toEqual(['a', 'ä', 'z'])
+    await wrapper.setProps({sortCompareLocale: 'sv'})
+    expect(column(wrapper)).toEqual(['a', 'z', 'ä'])
+    await wrapper.setProps({
+      items: [{value: 'B'}, {value: 'a'}, {value: 'b'}, {value: 'A'}],
+      sortCompareLocale: 'en',
+      sortCompareOptions: {caseFirst: 'upper'},
+    })
+    expect(column(wrapper)).toEqual(['A', 'a', 'B', 'b'])
+  })
+
+  it('describes the next sort order in the header', async () => {
+    const wrapper = mount(BTable, {
+      props: {
+        items: simpleItems,
+        fields: simpleFields,
+        labelSortAsc: 'Sort up',
+        labelSortDesc: 'Sort down',
+        labelSortClear: 'Unsort',
+      },
+    })
+    const [names] = wrapper.get('table').findAll('th')
+    const label = () => names.get('.visually-hidden').text()
+    expect(label()).toBe('(Sort up)')
+    await names.trigger('click')
+    expect(label()).toBe('(Sort down)')
+    await names.trigger('click')
+    expect(label()).toBe('(Unsort)')
+    await wrapper.setProps({mustSort: true})
+    expect(label()).toBe('(Sort up)')
+  })
+})
+
 describe('multi-sort', () => {
   it('has aria-sort labels reflecting sortBy prop', () => {
     const wrapper = mount(BTable, {
@@ -834,3 +964,1510 @@ describe('object-persistence', () => {
     })
   })
 })
+
+describe('virtual', () => {
+  const manyItems = Array.from({length: 500}, (_, i) => ({id: i, name: `Item ${i}`}))
+
+  it('only renders the visible window of the current page', () => {
+    const wrapper = mount(BTable, {
+      props: {items: manyItems, virtual: true, virtualOverscan: 3, perPage: 100, currentPage: 2},
+    })
+    const $rows = wrapper.findAll('tbody tr[data-virtual-index]')
+    expect($rows.length).toBe(4)
+    expect($rows[0].text()).toBe('100Item 100')
+  })
+
+  it('keeps selection working for rendered rows', async () => {
+    const wrapper = mount(BTable, {
+      props: {
+        'items': manyItems,
+        'virtual': true,
+        'selectable': true,
+        'selectedItems': [],
+        'onUpdate:selectedItems': (value) => wrapper.setProps({selectedItems: value}),
+      },
+    })
+    const $row = wrapper.get('tbody tr[data-virtual-index="1"]')
+    await $row.trigger('click')
+    expect(wrapper.emitted('row-selected')?.[0][0]).toEqual(manyItems[1])
+    expect(wrapper.get('tbody tr[data-virtual-index="1"]').classes()).toContain('selected')
+  })
+
+  it('keeps row details working for rendered rows', () => {
+    const wrapper = mount(BTable, {
+      props: {
+        items: [{id: 1, _showDetails: true}, {id: 2}],
+        fields: ['id'],
+        virtual: true,
+      },
+      slots: {
+        'row-details': 'details!',
+      },
+    })
+    expect(wrapper.get('tbody').text()).toContain('details!')
+  })
+})
+
+describe('cell editing', () => {
+  it('forwards the edit events and edit slots', async () => {
+    const items = [{id: 1, name: 'Alice'}]
+    const wrapper = mount(BTable, {
+      props: {
+        items,
+        fields: [{key: 'name', editable: true}],
+        onCellEditCommit: (event: BvCellEditEvent<(typeof items)[number]>) => {
+          event.item.name = event.newValue as string
+        },
+      },
+      slots: {
+        'edit(name)': `<template #edit(name)="{commit, updateValue}">
+          <button @click="updateValue('Alicia'); commit()">save</button>
+        </template>`,
+      },
+    })
+    await wrapper.get('tbody td').trigger('dblclick')
+    expect(wrapper.emitted('cell-edit-start')).toHaveLength(1)
+    await wrapper.get('button').trigger('click')
+    expect(wrapper.emitted('cell-edit-commit')).toHaveLength(1)
+    expect(items[0].name).toBe('Alicia')
+  })
+
+  it('emits the consumer item when the item has dotted keys', async () => {
+    const items = [{'id': 1, 'name.first': 'Alice'}]
+    const wrapper = mount(BTable, {
+      props: {items, fields: [{key: 'name.first', editable: true}]},
+    })
+    await wrapper.get('tbody td').trigger('dblclick')
+    await wrapper.get('input').setValue('Alicia')
+    await wrapper.get('input').trigger('keydown', {key: 'Enter'})
+    const [event] = wrapper.emitted('cell-edit-commit')?.[0] as [BvCellEditEvent]
+    expect(toRaw(event.item)).toBe(items[0])
+    expect(event.key).toBe('name.first')
+    expect(event.newValue).toBe('Alicia')
+  })
+})
+
+describe('exportData', () => {
+  const exportFields: TableField<SimplePerson>[] = [
+    {key: 'first_name', label: 'First, Name'},
+    {key: 'age', label: 'Age', formatter: (value) => `${value} years`},
+  ]
+
+  it('exports the filtered rows to csv using the labels and formatters', () => {
+    const wrapper = mount(BTable, {
+      props: {items: simpleItems, fields: exportFields, filter: 'i', perPage: 1},
+    })
+    expect(wrapper.vm.exportData({format: 'csv'})).toBe(
+      '"First, Name",Age\r\nHavij,27 years\r\nCyndi,9 years'
+    )
+  })
+
+  it('exports only the displayed page when scope is page', () => {
+    const wrapper = mount(BTable, {
+      props: {items: simpleItems, fields: exportFields, perPage: 1, currentPage: 2},
+    })
+    expect(wrapper.vm.exportData({format: 'tsv', scope: 'page'})).toBe(
+      'First, Name\tAge\r\nCyndi\t9 years'
+    )
+  })
+
+  it('leaves the items of collapsed groups out of the page', async () => {
+    const wrapper = mount(BTable, {
+      props: {items: simpleItems, fields: exportFields, groupBy: 'first_name', perPage: 2},
+    })
+    await wrapper.find('.b-table-group-toggle').trigger('click')
+    expect(wrapper.vm.exportData({format: 'tsv', scope: 'page'})).toBe(
+      'First, Name\tAge\r\nCyndi\t9 years\r\nRobert\t42 years'
+    )
+  })
+
+  it('exports every row when scope is all', () => {
+    const wrapper = mount(BTable, {
+      props: {items: simpleItems, fields: exportFields, filter: 'Robert'},
+    })
+    const result = JSON.parse(wrapper.vm.exportData({format: 'json', scope: 'all'}))
+    expect(result).toEqual([
+      {first_name: 'Havij', age: '27 years'},
+      {first_name: 'Cyndi', age: '9 years'},
+      {first_name: 'Robert', age: '42 years'},
+    ])
+  })
+
+  it('uses the fields option when provided', () => {
+    const wrapper = mount(BTable, {
+      props: {items: simpleItems, fields: exportFields},
+    })
+    expect(wrapper.vm.exportData({format: 'csv', fields: ['age']})).toBe(
+      'Age\r\n27 years\r\n9 years\r\n42 years'
+    )
+  })
+
+  it('skips meta keys and quotes values with quotes and line breaks', () => {
+    const wrapper = mount(BTable, {
+      props: {
+        items: [
+          {name: 'Say "hi"', note: 'line\nbreak', _rowVariant: 'danger'},
+          {name: ' padded', note: null, _showDetails: true},
+        ],
+      },
+    })
+    expect(wrapper.vm.exportData({format: 'csv'})).toBe(
+      'Name,Note\r\n"Say ""hi""","line\nbreak"\r\n" padded",'
+    )
+  })
+
+  it('returns a blob with the format mime type when output is blob', async () => {
+    const wrapper = mount(BTable, {
+      props: {items: simpleItems, fields: simpleFields},
+    })
+    const blob = wrapper.vm.exportData({format: 'json', output: 'blob'})
+    expect(blob).toBeInstanceOf(Blob)
+    expect(blob.type).toBe('application/json;charset=utf-8')
+    expect(JSON.parse(await blob.text())).toHaveLength(3)
+  })
+})
+
+describe('column filters', () => {
+  it('only shows the items matching every column filter', () => {
+    const wrapper = mount(BTable, {
+      props: {
+        items: multiSort,
+        fields: simpleFields,
+        filters: {first_name: 'r', age: {operator: 'range', min: 30}},
+      },
+    })
+    const rows = wrapper.findAll('tbody tr')
+    expect(rows.map((row) => row.find('td').text())).toEqual(['Robert', 'Robert'])
+  })
+
+  it('compares ISO date strings to a range of dates', () => {
+    const wrapper = mount(BTable, {
+      props: {
+        items: [
+          {name: 'a', date: '2024-01-15'},
+          {name: 'b', date: '2024-03-01T10:00:00Z'},
+          {name: 'c', date: '2024-06-30'},
+        ],
+        fields: ['name', 'date'],
+        filters: {
+          date: {
+            operator: 'range',
+            min: new Date('2024-02-01T00:00:00Z'),
+            max: new Date('2024-06-01T00:00:00Z'),
+          },
+        },
+      },
+    })
+    expect(wrapper.findAll('tbody tr').map((row) => row.find('td').text())).toEqual(['b'])
+  })
+
+  it('supports in-list and predicate filters', () => {
+    const wrapper = mount(BTable, {
+      props: {
+        items: multiSort,
+        fields: simpleFields,
+        filters: {first_name: ['Cyndi', 'Havij'], age: (value: unknown) => (value as number) > 20},
+      },
+    })
+    expect(wrapper.findAll('tbody tr').map((row) => row.find('td').text())).toEqual([
+      'Havij',
+      'Cyndi',
+    ])
+  })
+
+  it('uses the formatted value when the field has filterByFormatted', () => {
+    const wrapper = mount(BTable, {
+      props: {
+        items: simpleItems,
+        fields: [{...formattedFields[0], filterByFormatted: true}, ...simpleFields],
+        filters: {is_adult: 'no'},
+      },
+    })
+    const rows = wrapper.findAll('tbody tr')
+    expect(rows).toHaveLength(1)
+    expect(rows[0].text()).toContain('Cyndi')
+  })
+
+  it('shows the empty filtered text when the column filters match nothing', () => {
+    const wrapper = mount(BTable, {
+      props: {
+        items: simpleItems,
+        fields: simpleFields,
+        filters: {first_name: 'zzz'},
+        showEmpty: true,
+      },
+    })
+    expect(wrapper.find('.b-table-empty-row').text()).toBe(
+      'There are no records matching your request'
+    )
+  })
+
+  it('passes the filters to the provider and calls it again when they change', async () => {
+    const provider = vi.fn(() => simpleItems)
+    const wrapper = mount(BTable, {
+      props: {provider, fields: simpleFields, filters: {age: 9}},
+    })
+    await nextTick()
+    expect(provider).toHaveBeenLastCalledWith(expect.objectContaining({filters: {age: 9}}))
+    await wrapper.setProps({filters: {age: 42}})
+    await nextTick()
+    expect(provider).toHaveBeenLastCalledWith(expect.objectContaining({filters: {age: 42}}))
+    // The provider is responsible for filtering
+    expect(wrapper.findAll('tbody tr')).toHaveLength(3)
+  })
+
+  it('renders a filter row that updates the filters model', async () => {
+    const wrapper = mount(BTable, {
+      props: {
+        items: simpleItems,
+        fields: [...simpleFields, {key: 'actions', filterable: false}],
+        filterRow: true,
+      },
+    })
+    const inputs = wrapper.findAll('thead input')
+    expect(inputs).toHaveLength(2)
+    expect(inputs[0].attributes('aria-label')).toBe('Filter First Name')
+    await inputs[0].setValue('cyn')
+    expect(wrapper.emitted('update:filters')?.at(-1)).toEqual([{first_name: 'cyn'}])
+    await wrapper.setProps({filters: {first_name: 'cyn'}})
+    expect(wrapper.findAll('tbody tr')).toHaveLength(1)
+    await wrapper.findAll('thead input')[0].setValue('')
+    expect(wrapper.emitted('update:filters')?.at(-1)).toEqual([{}])
+  })
+
+  it('renders the filter slot in the filter row', () => {
+    const wrapper = mount(BTable, {
+      props: {items: simpleItems, fields: simpleFields, filterRow: true},
+      slots: {
+        'filter(age)': `<template #filter(age)="{field}"><span class="custom">{{ field.key }}</span></template>`,
+      },
+    })
+    expect(wrapper.find('thead .custom').text()).toBe('age')
+    expect(wrapper.findAll('thead input')).toHaveLength(1)
+  })
+})
+
+describe('provider', () => {
+  it('uses the items and totalRows of the provider result', async () => {
+    const wrapper = mount(BTable, {
+      props: {
+        provider: () => Promise.resolve({items: simpleItems.slice(0, 2), totalRows: 40}),
+        fields: simpleFields,
+        perPage: 2,
+      },
+    })
+    await flushPromises()
+    expect(wrapper.findAll('tbody tr')).toHaveLength(2)
+    expect(wrapper.emitted('update:totalRows')?.at(-1)).toEqual([40])
+  })
+
+  it('passes an abort signal that is aborted when a newer request starts', async () => {
+    const signals: AbortSignal[] = []
+    const resolvers: ((value: SimplePerson[]) => void)[] = []
+    const wrapper = mount(BTable, {
+      props: {
+        provider: ({signal}) => {
+          signals.push(signal)
+          return new Promise<SimplePerson[]>((resolve) => resolvers.push(resolve))
+        },
+        fields: simpleFields,
+      },
+    })
+    await nextTick()
+    expect(signals).toHaveLength(1)
+    await wrapper.setProps({filter: 'Cyndi'})
+    expect(signals).toHaveLength(2)
+    expect(signals[0].aborted).toBe(true)
+    expect(signals[1].aborted).toBe(false)
+
+    // The newer response wins, even when the stale one resolves later
+    resolvers[1]([simpleItems[1]])
+    await flushPromises()
+    resolvers[0](simpleItems)
+    await flushPromises()
+    expect(wrapper.findAll('tbody tr')).toHaveLength(1)
+    expect(wrapper.emitted('update:busy')?.at(-1)).toEqual([false])
+  })
+
+  it('ignores the rejection of an aborted request', async () => {
+    let calls = 0
+    const wrapper = mount(BTable, {
+      props: {
+        provider: ({signal}) => {
+          calls++
+          if (calls > 1) return simpleItems
+          return new Promise<SimplePerson[]>((_, reject) => {
+            signal.addEventListener('abort', () =>
+              reject(new DOMException('Aborted', 'AbortError'))
+            )
+          })
+        },
+        fields: simpleFields,
+      },
+    })
+    await nextTick()
+    await wrapper.setProps({currentPage: 2})
+    await flushPromises()
+    expect(calls).toBe(2)
+    expect(wrapper.findAll('tbody tr')).toHaveLength(3)
+  })
+
+  it('emits provider-error and resets busy when the provider rejects', async () => {
+    const error = new Error('offline')
+    const wrapper = mount(BTable, {
+      props: {
+        provider: () => Promise.reject(error),
+        fields: simpleFields,
+      },
+    })
+    await flushPromises()
+    expect(wrapper.emitted('provider-error')?.[0]).toEqual([error])
+    expect(wrapper.emitted('update:busy')?.at(-1)).toEqual([false])
+  })
+
+  it('aborts the request in flight when unmounted', async () => {
+    let signal: AbortSignal | undefined
+    const wrapper = mount(BTable, {
+      props: {
+        provider: ({signal: providerSignal}) => {
+          signal = providerSignal
+          return new Promise<SimplePerson[]>(() => {})
+        },
+        fields: simpleFields,
+      },
+    })
+    await nextTick()
+    wrapper.unmount()
+    expect(signal?.aborted).toBe(true)
+  })
+
+  it('sets totalRows to the number of filtered items without a provider', async () => {
+    const wrapper = mount(BTable, {
+      props: {items: simpleItems, fields: simpleFields, perPage: 1},
+    })
+    expect(wrapper.emitted('update:totalRows')?.at(-1)).toEqual([3])
+    await wrapper.setProps({filter: 'Cyndi'})
+    expect(wrapper.emitted('update:totalRows')?.at(-1)).toEqual([1])
+  })
+})
+
+describe('createFetchProvider', () => {
+  const people = [
+    {first_name: 'Havij', age: 1},
+    {first_name: 'Cyndi', age: 2},
+  ]
+
+  const mockFetch = (body: unknown = {items: people, total: 40}, status = 200) =>
+    vi.fn<(url: string, init?: RequestInit) => Promise<Response>>(() =>
+      Promise.resolve({ok: status < 400, status, json: () => Promise.resolve(body)} as Response)
+    )
+
+  const context = (overrides: Partial<BTableProviderContext> = {}): BTableProviderContext => ({
+    sortBy: undefined,
+    filter: undefined,
+    filters: undefined,
+    currentPage: 1,
+    perPage: 2,
+    signal: new AbortController().signal,
+    selectAll: false,
+    refresh: false,
+    ...overrides,
+  })
+
+  it('maps the context to query parameters and reads {items, total}', async () => {
+    const fetch = mockFetch()
+    const wrapper = mount(BTable, {
+      props: {
+        provider: createFetchProvider({url: '/api/people?active=1', fetch}),
+        fields: ['first_name', 'age'],
+        sortBy: [{key: 'first_name', order: 'desc'}],
+        filter: 'a b',
+        perPage: 2,
+        currentPage: 3,
+      },
+    })
+    await vi.waitFor(() => expect(wrapper.emitted('update:totalRows')?.at(-1)).toEqual([40]))
+    expect(fetch.mock.calls[0][0]).toBe(
+      '/api/people?active=1&page=3&perPage=2&filter=a+b&sort=first_name%3Adesc'
+    )
+    expect(fetch.mock.calls[0][1]?.signal).toBeInstanceOf(AbortSignal)
+    expect(wrapper.findAll('tbody tr').map((el) => el.find('td').text())).toEqual([
+      'Havij',
+      'Cyndi',
+    ])
+  })
+
+  it('leaves paging out when selecting all', async () => {
+    const fetch = mockFetch(people)
+    const provider = createFetchProvider({url: '/api/people', fetch})
+    expect(await provider(context({selectAll: true}))).toEqual(people)
+    expect(fetch.mock.calls[0][0]).toBe('/api/people')
+  })
+
+  it('caches the responses by request', async () => {
+    const fetch = mockFetch()
+    const provider = createFetchProvider({url: '/api/people', fetch, cacheSize: 1})
+    await provider(context())
+    await provider(context())
+    expect(fetch).toHaveBeenCalledTimes(1)
+    await provider(context({currentPage: 2}))
+    await provider(context())
+    expect(fetch).toHaveBeenCalledTimes(3)
+    provider.clearCache()
+    await provider(context())
+    expect(fetch).toHaveBeenCalledTimes(4)
+  })
+
+  it('fetches again when the table is refreshed', async () => {
+    const fetch = mockFetch()
+    const wrapper = mount(BTable, {
+      props: {provider: createFetchProvider({url: '/api/people', fetch}), fields: ['first_name']},
+    })
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1))
+    await wrapper.vm.refresh()
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('debounces the requests that follow a change of the filter', async () => {
+    const fetch = mockFetch()
+    const provider = createFetchProvider({url: '/api/people', fetch, debounce: 20})
+    await provider(context())
+    const first = new AbortController()
+    const stale = provider(context({filter: 'a', signal: first.signal}))
+    first.abort()
+    await expect(stale).rejects.toBeDefined()
+    await provider(context({filter: 'ab'}))
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(fetch.mock.calls[1][0]).toBe('/api/people?page=1&perPage=2&filter=ab')
+  })
+
+  it('still debounces the filter of a request that was aborted while waiting', async () => {
+    vi.useFakeTimers()
+    try {
+      const fetch = mockFetch()
+      const provider = createFetchProvider({url: '/api/people', fetch, debounce: 20})
+      await provider(context())
+      const first = new AbortController()
+      const stale = provider(context({filter: 'a', signal: first.signal}))
+      first.abort()
+      await expect(stale).rejects.toBeDefined()
+      const request = provider(context({filter: 'a'}))
+      await vi.advanceTimersByTimeAsync(10)
+      expect(fetch).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(10)
+      await request
+      expect(fetch).toHaveBeenCalledTimes(2)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('sends the column filters as JSON', async () => {
+    const fetch = mockFetch()
+    const provider = createFetchProvider({url: '/api/people', fetch})
+    await provider(
+      context({
+        filters: {first_name: 'a', age: {operator: 'range', min: 2}, other: () => true, empty: ''},
+      })
+    )
+    const url = new URL(fetch.mock.calls[0][0], 'http://localhost')
+    expect(JSON.parse(url.searchParams.get('filters') ?? '')).toEqual({
+      first_name: 'a',
+      age: {operator: 'range', min: 2},
+    })
+  })
+
+  it('uses mapRequest and mapResponse', async () => {
+    const fetch = mockFetch({data: {people: {nodes: people, count: 2}}})
+    const provider = createFetchProvider<(typeof people)[number]>({
+      url: '/graphql',
+      fetch,
+      mapRequest: ({currentPage}) => ({
+        init: {method: 'POST', body: JSON.stringify({variables: {page: currentPage}})},
+      }),
+      mapResponse: (body) => {
+        const {nodes, count} = (body as {data: {people: {nodes: typeof people; count: number}}})
+          .data.people
+        return {items: nodes, totalRows: count}
+      },
+    })
+    expect(await provider(context({currentPage: 2}))).toEqual({items: people, totalRows: 2})
+    expect(fetch.mock.calls[0][0]).toBe('/graphql')
+    expect(fetch.mock.calls[0][1]).toMatchObject({method: 'POST', body: '{"variables":{"page":2}}'})
+  })
+
+  it('rejects when the response is not ok', async () => {
+    const provider = createFetchProvider({url: '/api/people', fetch: mockFetch({}, 500)})
+    await expect(provider(context())).rejects.toThrow('failed with status 500')
+  })
+})
+
+describe('tree', () => {
+  interface Node {
+    id: number
+    name: string
+    _children?: Node[] | null
+  }
+
+  const treeItems = (): Node[] => [
+    {
+      id: 1,
+      name: 'Beta',
+      _children: [
+        {id: 11, name: 'Zulu'},
+        {id: 12, name: 'Alpha', _children: [{id: 121, name: 'Mike'}]},
+      ],
+    },
+    {id: 2, name: 'Alpha'},
+  ]
+  const treeFields = [{key: 'name', sortable: true}, 'id']
+
+  it('renders the top level rows with treegrid aria attributes', () => {
+    const wrapper = mount(BTable, {props: {items: treeItems(), fields: treeFields}})
+    expect(wrapper.find('table').attributes('role')).toBe('treegrid')
+    const rows = wrapper.findAll('tbody tr')
+    expect(rows).toHaveLength(2)
+    expect(rows[0].attributes('aria-level')).toBe('1')
+    expect(rows[0].attributes('aria-expanded')).toBe('false')
+    expect(rows[0].attributes('aria-posinset')).toBe('1')
+    expect(rows[0].attributes('aria-setsize')).toBe('2')
+    expect(rows[1].attributes('aria-expanded')).toBeUndefined()
+    expect(rows[1].find('button').exists()).toBe(false)
+  })
+
+  it('expands and collapses rows with the toggle button', async () => {
+    const wrapper = mount(BTable, {props: {items: treeItems(), fields: treeFields}})
+    await wrapper.find('tbody tr button').trigger('click')
+    await flushPromises()
+    let rows = wrapper.findAll('tbody tr')
+    expect(rows.map((row) => row.find('td').text())).toEqual(['Beta', 'Zulu', 'Alpha', 'Alpha'])
+    expect(rows[0].attributes('aria-expanded')).toBe('true')
+    expect(rows[1].attributes('aria-level')).toBe('2')
+    expect(wrapper.emitted('row-expanded')?.[0][0]).toEqual(expect.objectContaining({id: 1}))
+    // Toggling does not select or click the row
+    expect(wrapper.emitted('row-clicked')).toBeUndefined()
+
+    await rows[0].find('button').trigger('click')
+    await flushPromises()
+    rows = wrapper.findAll('tbody tr')
+    expect(rows).toHaveLength(2)
+    expect(wrapper.emitted('row-collapsed')).toHaveLength(1)
+  })
+
+  it('uses the childrenField prop', () => {
+    const wrapper = mount(BTable, {
+      props: {
+        items: [{name: 'Parent', children: [{name: 'Child'}]}],
+        fields: ['name'],
+        childrenField: 'children',
+      },
+    })
+    expect(wrapper.find('tbody tr').attributes('aria-expanded')).toBe('false')
+  })
+
+  it('sorts the rows within each level', async () => {
+    const wrapper = mount(BTable, {
+      props: {
+        items: treeItems(),
+        fields: treeFields,
+        sortBy: [{key: 'name', order: 'asc'}],
+      },
+    })
+    await wrapper.find('tbody tr:nth-child(2) button').trigger('click')
+    await flushPromises()
+    expect(wrapper.findAll('tbody tr').map((row) => row.find('td').text())).toEqual([
+      'Alpha',
+      'Beta',
+      'Alpha',
+      'Zulu',
+    ])
+  })
+
+  it('keeps and expands the ancestors of rows that match the filter', () => {
+    const wrapper = mount(BTable, {
+      props: {items: treeItems(), fields: treeFields, filter: 'mike'},
+    })
+    expect(wrapper.findAll('tbody tr').map((row) => row.find('td').text())).toEqual([
+      'Beta',
+      'Alpha',
+      'Mike',
+    ])
+  })
+
+  it('loads the children with loadChildren', async () => {
+    let resolve: (items: Node[]) => void = () => {}
+    const loadChildren = vi.fn(
+      () =>
+        new Promise<Node[]>((res) => {
+          resolve = res
+        })
+    )
+    const wrapper = mount(BTable, {
+      props: {
+        items: [
+          {id: 1, name: 'Lazy'},
+          {id: 2, name: 'Leaf', _children: []},
+        ],
+        fields: treeFields,
+        loadChildren,
+      },
+    })
+    const rows = wrapper.findAll('tbody tr')
+    expect(rows[1].find('button').exists()).toBe(false)
+    await rows[0].find('button').trigger('click')
+    expect(loadChildren).toHaveBeenCalledWith(expect.objectContaining({id: 1}))
+    expect(rows[0].find('button').attributes('aria-busy')).toBe('true')
+    resolve([{id: 3, name: 'Loaded'}])
+    await flushPromises()
+    expect(wrapper.findAll('tbody tr').map((row) => row.find('td').text())).toEqual([
+      'Lazy',
+      'Loaded',
+      'Leaf',
+    ])
+  })
+
+  it('leaves the row collapsed and emits load-children-error when loadChildren rejects', async () => {
+    const error = new Error('failed')
+    const loadChildren = vi.fn().mockRejectedValueOnce(error).mockResolvedValueOnce([])
+    const wrapper = mount(BTable, {
+      props: {
+        items: [{id: 1, name: 'Lazy'}],
+        fields: treeFields,
+        loadChildren,
+        labelExpandRow: 'Open',
+      },
+    })
+    const button = wrapper.find('tbody tr button')
+    expect(button.attributes('aria-label')).toBe('Open')
+    await button.trigger('click')
+    await flushPromises()
+    expect(wrapper.emitted('load-children-error')?.[0]).toEqual([
+      error,
+      expect.objectContaining({id: 1}),
+    ])
+    expect(wrapper.emitted('row-expanded')).toBeUndefined()
+    expect(button.attributes('aria-busy')).toBeUndefined()
+    expect(button.attributes('aria-label')).toBe('Open')
+    await button.trigger('click')
+    await flushPromises()
+    expect(loadChildren).toHaveBeenCalledTimes(2)
+    expect(wrapper.emitted('row-expanded')).toHaveLength(1)
+  })
+
+  it('renders the cell slot inside of the tree cell', async () => {
+    const wrapper = mount(BTable, {
+      props: {items: treeItems(), fields: treeFields},
+      slots: {'cell(name)': `<template #cell(name)="{value}"><b>{{ value }}</b></template>`},
+    })
+    expect(wrapper.find('tbody tr .b-table-tree-cell b').text()).toBe('Beta')
+  })
+
+  it('selects the descendants in descendants mode', async () => {
+    const items = treeItems()
+    const wrapper = mount(BTable, {
+      props: {items, fields: treeFields, selectable: true, treeSelectMode: 'descendants'},
+    })
+    await wrapper.find('tbody tr input[type="checkbox"]').setValue(true)
+    const [selected] = wrapper.emitted('update:selectedItems')?.at(-1) as Node[][]
+    expect(selected.map((el) => el.id)).toEqual([1, 11, 12, 121])
+  })
+
+  it('selects the parent once every child is selected in cascade mode', async () => {
+    const items = treeItems()
+    const wrapper = mount(BTable, {
+      props: {
+        items,
+        'fields': treeFields,
+        'selectable': true,
+        'treeSelectMode': 'cascade',
+        'selectedItems': [items[0]._children![0]],
+        'onUpdate:selectedItems': (value: Node[]) => wrapper.setProps({selectedItems: value}),
+      },
+    })
+    await wrapper.find('tbody tr button').trigger('click')
+    await flushPromises()
+    const checkboxes = () => wrapper.findAll('tbody input[type="checkbox"]')
+    expect((checkboxes()[0].element as HTMLInputElement).indeterminate).toBe(true)
+
+    // Selecting the last unselected child also selects the parent
+    await checkboxes()[2].setValue(true)
+    expect(wrapper.props('selectedItems')?.map((el) => (el as Node).id)).toEqual([11, 12, 121, 1])
+
+    // Unselecting a child unselects the parent
+    await checkboxes()[1].setValue(false)
+    expect(wrapper.props('selectedItems')?.map((el) => (el as Node).id)).toEqual([12, 121])
+  })
+})
+
+describe('groupBy', () => {
+  interface Sale {
+    region: string
+    amount: number
+  }
+
+  const sales: Sale[] = [
+    {region: 'North', amount: 10},
+    {region: 'South', amount: 5},
+    {region: 'North', amount: 30},
+    {region: 'East', amount: 7},
+    {region: 'South', amount: 15},
+  ]
+  const salesFields: TableField<Sale>[] = [
+    {key: 'region', sortable: true},
+    {key: 'amount', sortable: true, aggregate: 'sum'},
+  ]
+
+  const rowTexts = (wrapper: ReturnType<typeof mount>) =>
+    wrapper.findAll('tbody tr').map((row) =>
+      row.classes('b-table-group-header')
+        ? `# ${row.text()}`
+        : row.classes('b-table-group-footer')
+          ? `=${row
+              .findAll('td')
+              .map((td) => td.text())
+              .join('|')}`
+          : row
+              .findAll('td')
+              .map((td) => td.text())
+              .join('|')
+    )
+
+  it('renders a header before each group in order of the first item', () => {
+    const wrapper = mount(BTable, {
+      props: {items: sales, fields: [{key: 'region'}, {key: 'amount'}], groupBy: 'region'},
+    })
+    expect(rowTexts(wrapper)).toEqual([
+      '# North (2)',
+      'North|10',
+      'North|30',
+      '# South (2)',
+      'South|5',
+      'South|15',
+      '# East (1)',
+      'East|7',
+    ])
+  })
+
+  it('renders the aggregate footer and sorts within the groups', () => {
+    const wrapper = mount(BTable, {
+      props: {
+        items: sales,
+        fields: salesFields,
+        groupBy: 'region',
+        sortBy: [
+          {key: 'region', order: 'asc'},
+          {key: 'amount', order: 'desc'},
+        ],
+      },
+    })
+    expect(rowTexts(wrapper)).toEqual([
+      '# East (1)',
+      'East|7',
+      '=|7',
+      '# North (2)',
+      'North|30',
+      'North|10',
+      '=|40',
+      '# South (2)',
+      'South|15',
+      'South|5',
+      '=|20',
+    ])
+  })
+
+  it('supports a function and every aggregate', () => {
+    const wrapper = mount(BTable, {
+      props: {
+        items: sales,
+        fields: [
+          {key: 'region', aggregate: 'count'},
+          {key: 'amount', aggregate: 'avg'},
+          {key: 'min', aggregate: (_values, items) => Math.min(...items.map((el) => el.amount))},
+        ],
+        groupBy: (item: Sale) => (item.amount >= 10 ? 'Large' : 'Small'),
+      },
+    })
+    const footers = wrapper.findAll('.b-table-group-footer')
+    expect(footers.map((row) => row.findAll('td').map((td) => td.text()))).toEqual([
+      ['3', '18.333', '10'],
+      ['2', '6', '5'],
+    ])
+    expect(wrapper.find('.b-table-group-header').text()).toBe('Large (3)')
+  })
+
+  it('collapses a group to its header', async () => {
+    const wrapper = mount(BTable, {
+      props: {items: sales, fields: salesFields, groupBy: 'region'},
+    })
+    await wrapper.find('.b-table-group-toggle').trigger('click')
+    expect(wrapper.find('.b-table-group-toggle').attributes('aria-expanded')).toBe('false')
+    expect(rowTexts(wrapper).slice(0, 2)).toEqual(['# North (2)', '# South (2)'])
+    await wrapper.find('.b-table-group-toggle').trigger('click')
+    expect(rowTexts(wrapper).slice(0, 4)).toEqual(['# North (2)', 'North|10', 'North|30', '=|40'])
+  })
+
+  it('leaves the rows of collapsed groups out of paging', async () => {
+    const wrapper = mount(BTable, {
+      props: {items: sales, fields: salesFields, groupBy: 'region', perPage: 2},
+    })
+    await wrapper.find('.b-table-group-toggle').trigger('click')
+    expect(rowTexts(wrapper)).toEqual(['# North (2)', '# South (2)', 'South|5', 'South|15', '=|20'])
+    await wrapper.setProps({currentPage: 2})
+    expect(rowTexts(wrapper)).toEqual(['# East (1)', 'East|7', '=|7'])
+  })
+
+  it('renders the headers of collapsed groups after the last row', async () => {
+    const wrapper = mount(BTable, {
+      props: {items: sales, fields: salesFields, groupBy: 'region'},
+    })
+    await wrapper.findAll('.b-table-group-toggle')[2].trigger('click')
+    expect(rowTexts(wrapper).slice(-2)).toEqual(['=|20', '# East (1)'])
+    await wrapper.findAll('.b-table-group-toggle')[1].trigger('click')
+    await wrapper.findAll('.b-table-group-toggle')[0].trigger('click')
+    expect(rowTexts(wrapper)).toEqual(['# North (2)', '# South (2)', '# East (1)'])
+    expect(wrapper.emitted('change')?.at(-1)?.[0]).toEqual([])
+  })
+
+  it('repeats the header of a group that continues on the next page', () => {
+    const wrapper = mount(BTable, {
+      props: {items: sales, fields: salesFields, groupBy: 'region', perPage: 2, currentPage: 2},
+    })
+    expect(rowTexts(wrapper)).toEqual(['# South (2)', 'South|5', 'South|15', '=|20'])
+  })
+
+  it('renders the group-header slot', () => {
+    const wrapper = mount(BTable, {
+      props: {items: sales, fields: salesFields, groupBy: 'region'},
+      slots: {
+        'group-header': `<template #group-header="{group}">{{ group.value }}: {{ group.aggregates.amount }}</template>`,
+      },
+    })
+    expect(wrapper.find('.b-table-group-header').text()).toBe('North: 40')
+  })
+})
+
+describe('column customization', () => {
+  const fields = [{key: 'a'}, {key: 'b', hideable: false}, {key: 'c'}]
+  const items = [{a: 1, b: 2, c: 3}]
+  const headTexts = (wrapper: ReturnType<typeof mount>) =>
+    wrapper.findAll('thead th').map((th) => th.text())
+
+  it('only renders the visibleFields and fields that are not hideable', () => {
+    const wrapper = mount(BTable, {props: {items, fields, visibleFields: ['c']}})
+    expect(headTexts(wrapper)).toEqual(['B', 'C'])
+    expect(wrapper.findAll('tbody td').map((td) => td.text())).toEqual(['2', '3'])
+  })
+
+  it('renders the fields in fieldOrder, followed by the fields that are missing from it', () => {
+    const wrapper = mount(BTable, {props: {items, fields, fieldOrder: ['c', 'a']}})
+    expect(headTexts(wrapper)).toEqual(['C', 'A', 'B'])
+  })
+
+  it('applies the columnWidths to the header cells', () => {
+    const wrapper = mount(BTable, {props: {items, fields, columnWidths: {b: 120}}})
+    expect(wrapper.findAll('thead th')[1].attributes('style')).toContain('width: 120px')
+  })
+
+  it('reorders the fields by dragging a header cell onto another one', async () => {
+    const wrapper = mount(BTable, {props: {items, fields, reorderableColumns: true}})
+    const ths = wrapper.findAll('thead th')
+    expect(ths[0].attributes('draggable')).toBe('true')
+    await ths[0].trigger('dragstart')
+    await ths[2].trigger('dragover')
+    expect(ths[2].classes()).toContain('b-table-column-drop-before')
+    await ths[2].trigger('drop')
+    expect(wrapper.emitted('update:fieldOrder')?.at(-1)).toEqual([['b', 'a', 'c']])
+    await wrapper.setProps({fieldOrder: ['b', 'a', 'c']})
+    expect(headTexts(wrapper)).toEqual(['B', 'A', 'C'])
+  })
+
+  it('resizes a column by dragging the handle within minWidth and maxWidth', async () => {
+    const wrapper = mount(BTable, {
+      props: {
+        items,
+        fields: [{key: 'a', minWidth: 50, maxWidth: 200}, {key: 'b', resizable: false}, 'c'],
+        resizableColumns: true,
+        columnWidths: {a: 100},
+      },
+    })
+    expect(wrapper.findAll('.b-table-resize-handle')).toHaveLength(2)
+    await wrapper.find('.b-table-resize-handle').trigger('pointerdown', {clientX: 10})
+    document.dispatchEvent(new PointerEvent('pointermove', {clientX: 60}))
+    expect(wrapper.emitted('update:columnWidths')?.at(-1)).toEqual([{a: 150}])
+    document.dispatchEvent(new PointerEvent('pointermove', {clientX: 500}))
+    expect(wrapper.emitted('update:columnWidths')?.at(-1)).toEqual([{a: 200}])
+    document.dispatchEvent(new PointerEvent('pointerup'))
+    document.dispatchEvent(new PointerEvent('pointermove', {clientX: -500}))
+    expect(wrapper.emitted('update:columnWidths')?.at(-1)).toEqual([{a: 200}])
+  })
+
+  it('resizes a column with the arrow keys', async () => {
+    const wrapper = mount(BTable, {
+      props: {items, fields, resizableColumns: true, columnWidths: {a: 100}},
+    })
+    await wrapper.find('.b-table-resize-handle').trigger('keydown', {key: 'ArrowLeft'})
+    expect(wrapper.emitted('update:columnWidths')?.at(-1)).toEqual([{a: 90}])
+    expect(wrapper.emitted('head-clicked')).toBeUndefined()
+  })
+})
+
+describe('selectedKeys', () => {
+  const items = [
+    {id: 1, name: 'a'},
+    {id: 2, name: 'b'},
+    {id: 3, name: 'c'},
+  ]
+  const fields = ['name']
+
+  it('resolves the selectedKeys to the selected items', async () => {
+    const wrapper = mount(BTable, {
+      props: {items, fields, primaryKey: 'id', selectable: true, selectedKeys: [2]},
+    })
+    expect(wrapper.emitted('update:selectedItems')?.at(-1)).toEqual([[items[1]]])
+    await wrapper.findAll('tbody tr')[2].trigger('click')
+    expect(wrapper.emitted('update:selectedKeys')?.at(-1)).toEqual([[2, 3]])
+  })
+
+  it('keeps the selection when the items are fetched again', async () => {
+    const wrapper = mount(BTable, {
+      props: {items, fields, primaryKey: 'id', selectable: true, selectedKeys: [2]},
+    })
+    const refetched = items.map((item) => ({...item}))
+    await wrapper.setProps({items: refetched})
+    expect(wrapper.emitted('update:selectedItems')?.at(-1)).toEqual([[refetched[1]]])
+    expect(wrapper.emitted('row-unselected')).toBeUndefined()
+    expect(wrapper.findAll('tbody tr')[1].classes()).toContain('selected')
+  })
+
+  it('keeps the keys of items that are not loaded', async () => {
+    const wrapper = mount(BTable, {
+      props: {items, fields, primaryKey: 'id', selectable: true, selectedKeys: [99, '1']},
+    })
+    expect(wrapper.emitted('update:selectedKeys')?.at(-1)).toEqual([[99, 1]])
+    await wrapper.setProps({selectedKeys: [99, 1]})
+    await wrapper.findAll('tbody tr')[0].trigger('click')
+    expect(wrapper.emitted('update:selectedKeys')?.at(-1)).toEqual([[99]])
+    await wrapper.setProps({selectedKeys: [99]})
+    wrapper.vm.clearSelected()
+    expect(wrapper.emitted('update:selectedKeys')?.at(-1)).toEqual([[]])
+  })
+
+  it('selects the rows of the page or every row that matches the filter', async () => {
+    const wrapper = mount(BTable, {
+      props: {items, fields, primaryKey: 'id', selectable: true, perPage: 2, filter: 'a'},
+    })
+    await wrapper.setProps({filter: undefined})
+    await wrapper.vm.selectAllRows('page')
+    expect(wrapper.emitted('update:selectedItems')?.at(-1)).toEqual([[items[0], items[1]]])
+    await wrapper.vm.selectAllRows()
+    expect(wrapper.emitted('update:selectedItems')?.at(-1)).toEqual([items])
+  })
+
+  it('adds the matching rows to the selection right away', () => {
+    const wrapper = mount(BTable, {
+      props: {items, fields, primaryKey: 'id', selectable: true, filter: 'a', selectedKeys: [3]},
+    })
+    const result = wrapper.vm.selectAllRows('filtered')
+    expect(result).toBeUndefined()
+    expect(wrapper.emitted('update:selectedKeys')?.at(-1)).toEqual([[3, 1]])
+  })
+
+  it('matches copies of the selected items by their primary key', async () => {
+    const wrapper = mount(BTable, {
+      props: {items, fields, primaryKey: 'id', selectable: true, selectedItems: [{...items[1]}]},
+    })
+    expect(wrapper.findAll('tbody tr').map((tr) => tr.classes('selected'))).toEqual([
+      false,
+      true,
+      false,
+    ])
+  })
+
+  it('asks the provider for every matching item when selecting all of them', async () => {
+    const provider = vi.fn(({selectAll}: {selectAll: boolean}) =>
+      selectAll ? items : items.slice(0, 1)
+    )
+    const wrapper = mount(BTable, {
+      props: {provider, fields, primaryKey: 'id', selectable: true, perPage: 1, selectedKeys: []},
+    })
+    await flushPromises()
+    await wrapper.vm.selectAllRows('filtered')
+    expect(provider).toHaveBeenLastCalledWith(expect.objectContaining({selectAll: true}))
+    expect(wrapper.emitted('update:selectedKeys')?.at(-1)).toEqual([[1, 2, 3]])
+    expect(wrapper.findAll('tbody tr')).toHaveLength(1)
+  })
+})
+
+describe('select column', () => {
+  const items = [
+    {id: 1, name: 'a'},
+    {id: 2, name: 'b'},
+    {id: 3, name: 'c'},
+  ]
+  const fields = ['name']
+
+  it('is only rendered with selectHead', () => {
+    const wrapper = mount(BTable, {props: {items, fields, selectable: true}})
+    expect(wrapper.find('.b-table-select-column').exists()).toBe(false)
+    const withHead = mount(BTable, {props: {items, fields, selectable: true, selectHead: 'All'}})
+    expect(withHead.get('thead th').text()).toBe('All')
+    expect(withHead.findAll('tbody td.b-table-select-column')).toHaveLength(3)
+  })
+
+  it('selects a row with its checkbox', async () => {
+    const wrapper = mount(BTable, {props: {items, fields, selectable: true, selectHead: true}})
+    await wrapper.findAll('tbody input[type="checkbox"]')[1].setValue(true)
+    expect(wrapper.emitted('update:selectedItems')?.at(-1)).toEqual([[items[1]]])
+    expect(wrapper.emitted('row-clicked')).toBeUndefined()
+  })
+
+  it('selects the rows of the page with the header checkbox, which is indeterminate on a partial selection', async () => {
+    const wrapper = mount(BTable, {
+      props: {items, fields, selectable: true, selectHead: true, perPage: 2},
+    })
+    const $head = wrapper.get('thead input[type="checkbox"]')
+    await wrapper.setProps({selectedItems: [items[0]]})
+    expect(($head.element as HTMLInputElement).indeterminate).toBe(true)
+    await $head.setValue(true)
+    expect(wrapper.emitted('update:selectedItems')?.at(-1)).toEqual([[items[0], items[1]]])
+    await wrapper.setProps({selectedItems: [items[0], items[1], items[2]]})
+    expect(($head.element as HTMLInputElement).checked).toBe(true)
+    await $head.setValue(false)
+    expect(wrapper.emitted('update:selectedItems')?.at(-1)).toEqual([[items[2]]])
+  })
+
+  it('is sticky with stickySelect', () => {
+    const wrapper = mount(BTable, {
+      props: {items, fields, selectable: true, selectHead: true, stickySelect: true},
+    })
+    expect(wrapper.get('thead th').classes()).toContain('b-table-sticky-column')
+  })
+})
+
+describe('row reordering', () => {
+  const items = [
+    {id: 1, name: 'c'},
+    {id: 2, name: 'a'},
+    {id: 3, name: 'b'},
+    {id: 4, name: 'd'},
+  ]
+
+  it('maps the indices to items when sorting and paging', async () => {
+    const wrapper = mount(BTable, {
+      props: {
+        items,
+        fields: [{key: 'name', sortable: true}],
+        sortBy: [{key: 'name', order: 'asc' as const}],
+        perPage: 2,
+        currentPage: 2,
+        reorderable: true,
+      },
+    })
+    expect(wrapper.findAll('tbody tr').map((tr) => tr.text())).toEqual(['c', 'd'])
+    const $handles = wrapper.findAll('.b-table-reorder-handle')
+    await $handles[0].trigger('keydown', {key: 'ArrowDown'})
+    expect(wrapper.emitted('row-reordered')?.at(-1)).toEqual([0, 3, items[0]])
+    await $handles[1].trigger('keydown', {key: 'ArrowUp'})
+    expect(wrapper.emitted('row-reordered')?.at(-1)).toEqual([3, 0, items[3]])
+  })
+
+  it('moves rows with the arrow keys across the edges of the page', async () => {
+    const wrapper = mount(BTable, {
+      props: {items, perPage: 2, currentPage: 2, reorderable: true},
+    })
+    await wrapper.findAll('.b-table-reorder-handle')[0].trigger('keydown', {key: 'ArrowUp'})
+    await flushPromises()
+    expect(wrapper.emitted('update:currentPage')?.at(-1)).toEqual([1])
+    expect(wrapper.emitted('row-reordered')?.at(-1)).toEqual([2, 1, items[2]])
+    await wrapper.findAll('.b-table-reorder-handle')[1].trigger('keydown', {key: 'ArrowDown'})
+    await flushPromises()
+    expect(wrapper.emitted('update:currentPage')?.at(-1)).toEqual([2])
+    expect(wrapper.emitted('row-reordered')?.at(-1)).toEqual([1, 2, items[1]])
+    await wrapper.findAll('.b-table-reorder-handle')[1].trigger('keydown', {key: 'ArrowDown'})
+    await flushPromises()
+    expect(wrapper.emitted('row-reordered')).toHaveLength(2)
+  })
+
+  it('maps a row dropped on another page to items', async () => {
+    vi.useFakeTimers()
+    const wrapper = mount(BTable, {
+      props: {items, perPage: 2, currentPage: 1, reorderable: true},
+    })
+    await wrapper.find('.b-table-reorder-handle').trigger('dragstart')
+    await wrapper.get('tbody').trigger('dragover', {clientY: window.innerHeight - 10})
+    await vi.advanceTimersByTimeAsync(600)
+    expect(wrapper.findAll('tbody tr').map((tr) => tr.text())).toEqual(['3b', '4d', ''])
+    expect(wrapper.findAll('tbody tr')[2].classes()).toContain('b-table-reorder-placeholder')
+    await wrapper.get('tbody').trigger('drop')
+    expect(wrapper.emitted('row-reordered')?.at(-1)).toEqual([0, 3, items[0]])
+    vi.useRealTimers()
+  })
+
+  it('does not select the row when the handle is clicked', async () => {
+    const wrapper = mount(BTable, {props: {items, selectable: true, reorderable: true}})
+    await wrapper.find('.b-table-reorder-handle').trigger('click')
+    expect(wrapper.emitted('row-selected')).toBeUndefined()
+  })
+})
+
+describe('persist', () => {
+  const items = [
+    {id: 1, name: 'a'},
+    {id: 2, name: 'b'},
+    {id: 3, name: 'c'},
+  ]
+  const fields = [
+    {key: 'id', sortable: true},
+    {key: 'name', sortable: true},
+  ]
+
+  afterEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+    window.history.replaceState(null, '', '/')
+  })
+
+  it('restores the state from localStorage', () => {
+    localStorage.setItem(
+      'users',
+      JSON.stringify({
+        sortBy: [{key: 'id', order: 'desc'}],
+        filter: 'b',
+        currentPage: 2,
+        perPage: 10,
+        visibleFields: ['name'],
+      })
+    )
+    const wrapper = mount(BTable, {props: {items, fields, stateKey: 'users'}})
+    expect(wrapper.emitted('update:sortBy')?.at(-1)).toEqual([[{key: 'id', order: 'desc'}]])
+    expect(wrapper.emitted('update:filter')?.at(-1)).toEqual(['b'])
+    expect(wrapper.emitted('update:currentPage')?.at(-1)).toEqual([2])
+    expect(wrapper.emitted('update:perPage')?.at(-1)).toEqual([10])
+    expect(wrapper.emitted('update:visibleFields')?.at(-1)).toEqual([['name']])
+  })
+
+  it('ignores a stored state with the wrong shape', () => {
+    localStorage.setItem('users', JSON.stringify({sortBy: 'id', currentPage: '2'}))
+    const wrapper = mount(BTable, {props: {items, fields, stateKey: 'users'}})
+    expect(wrapper.emitted('update:sortBy')).toBeUndefined()
+    expect(wrapper.emitted('update:currentPage')).toBeUndefined()
+    expect(wrapper.findAll('tbody tr')).toHaveLength(3)
+  })
+
+  it('saves the state to sessionStorage when it changes', async () => {
+    const wrapper = mount(BTable, {
+      props: {items, fields, stateKey: 'users', persist: 'session'},
+    })
+    await wrapper.setProps({filter: 'c', sortBy: [{key: 'name', order: 'asc'}]})
+    expect(JSON.parse(sessionStorage.getItem('users') ?? '')).toEqual({
+      sortBy: [{key: 'name', order: 'asc'}],
+      filter: 'c',
+      currentPage: 1,
+    })
+    expect(localStorage.getItem('users')).toBeNull()
+  })
+
+  it('does not persist without a stateKey', async () => {
+    const wrapper = mount(BTable, {props: {items, fields}})
+    await wrapper.setProps({filter: 'c'})
+    expect(localStorage.length).toBe(0)
+  })
+
+  it('restores the selection by primaryKey once the items are available', async () => {
+    localStorage.setItem('users', JSON.stringify({selectedKeys: [2, 3]}))
+    const wrapper = mount(BTable, {
+      props: {items: [], fields, stateKey: 'users', primaryKey: 'id', selectable: true},
+    })
+    expect(wrapper.emitted('update:selectedItems')).toBeUndefined()
+    await wrapper.setProps({items})
+    expect(wrapper.emitted('update:selectedItems')?.at(-1)).toEqual([[items[1], items[2]]])
+  })
+
+  it('saves the state in the URL query', async () => {
+    window.history.replaceState(null, '', '/?users.sort=name:desc&users.page=2&other=1')
+    const wrapper = mount(BTable, {props: {items, fields, stateKey: 'users', persist: 'query'}})
+    expect(wrapper.emitted('update:sortBy')?.at(-1)).toEqual([[{key: 'name', order: 'desc'}]])
+    expect(wrapper.emitted('update:currentPage')?.at(-1)).toEqual([2])
+    await wrapper.setProps({filter: 'a b'})
+    const params = new URLSearchParams(window.location.search)
+    expect(params.get('users.filter')).toBe('a b')
+    expect(params.get('users.sort')).toBe('name:desc')
+    expect(params.get('users.page')).toBe('2')
+    expect(params.has('users.perPage')).toBe(false)
+    expect(params.get('other')).toBe('1')
+  })
+
+  it('writes every selected key and sort entry to its own query parameter', async () => {
+    const commaItems = [
+      {id: '1,2', name: 'a'},
+      {id: '3', name: 'b'},
+    ]
+    const props = {
+      items: commaItems,
+      fields,
+      stateKey: 'users',
+      persist: 'query',
+      primaryKey: 'id',
+      selectable: true,
+    } as const
+    const wrapper = mount(BTable, {props})
+    await wrapper.setProps({
+      sortBy: [
+        {key: 'a,b', order: 'asc'},
+        {key: 'c:d', order: 'desc'},
+      ],
+      selectedKeys: ['1,2', '3'],
+    })
+    const params = new URLSearchParams(window.location.search)
+    expect(params.getAll('users.sort')).toEqual(['a,b:asc', 'c:d:desc'])
+    expect(params.getAll('users.selected')).toEqual(['1,2', '3'])
+
+    const restored = mount(BTable, {props})
+    expect(restored.emitted('update:sortBy')?.at(-1)).toEqual([
+      [
+        {key: 'a,b', order: 'asc'},
+        {key: 'c:d', order: 'desc'},
+      ],
+    ])
+    expect(restored.emitted('update:selectedItems')?.at(-1)).toEqual([commaItems])
+  })
+
+  it('does not reject when the router rejects the navigation', async () => {
+    const router = createRouter({
+      history: createMemoryHistory(),
+      routes: [{path: '/', component: {render: () => null}}],
+    })
+    await router.push('/')
+    router.beforeEach(() => {
+      throw new Error('blocked')
+    })
+    const onError = vi.fn()
+    router.onError(onError)
+    const wrapper = mount(BTable, {
+      props: {items, fields, stateKey: 'users', persist: 'query'},
+      global: {plugins: [router]},
+    })
+    await wrapper.setProps({currentPage: 4})
+    await flushPromises()
+    expect(router.currentRoute.value.query).toEqual({})
+    await wrapper.setProps({currentPage: 2})
+    await flushPromises()
+    expect(router.currentRoute.value.query).toEqual({})
+    expect(onError).toHaveBeenCalledTimes(2)
+  })
+
+  it('uses the router for the query and follows navigation', async () => {
+    const router = createRouter({
+      history: createMemoryHistory(),
+      routes: [{path: '/', component: {render: () => null}}],
+    })
+    await router.push('/?users.page=3')
+    const wrapper = mount(BTable, {
+      props: {items, fields, stateKey: 'users', persist: 'query'},
+      global: {plugins: [router]},
+    })
+    expect(wrapper.emitted('update:currentPage')?.at(-1)).toEqual([3])
+    await wrapper.setProps({currentPage: 4})
+    await flushPromises()
+    expect(router.currentRoute.value.query).toEqual({'users.page': '4'})
+    await router.push('/?users.page=2')
+    expect(wrapper.emitted('update:currentPage')?.at(-1)).toEqual([2])
+  })
+
+  it('uses a custom adapter', async () => {
+    const adapter: BTableStateAdapter = {
+      read: vi.fn(() => ({currentPage: 5})),
+      write: vi.fn(),
+    }
+    const wrapper = mount(BTable, {
+      props: {items, fields, stateKey: 'users', persist: adapter},
+    })
+    expect(adapter.read).toHaveBeenCalledWith('users')
+    expect(wrapper.emitted('update:currentPage')?.at(-1)).toEqual([5])
+    await wrapper.setProps({perPage: 2})
+    expect(adapter.write).toHaveBeenLastCalledWith('users', {
+      sortBy: [],
+      filter: '',
+      currentPage: 5,
+      perPage: 2,
+    })
+  })
+})
+
+describe('keyboardNav', () => {
+  const items = [
+    {id: 1, name: 'a'},
+    {id: 2, name: 'b'},
+    {id: 3, name: 'c'},
+  ]
+  const fields = [
+    {key: 'id', sortable: true},
+    {key: 'name', sortable: true},
+  ]
+  const cell = (wrapper: ReturnType<typeof mount>, row: number, column: number) =>
+    wrapper.find(`[data-grid-cell="${row}:${column}"]`)
+
+  it('renders a grid with a single cell in the tab sequence', () => {
+    const wrapper = mount(BTable, {props: {items, fields, keyboardNav: true}})
+    expect(wrapper.find('table').attributes('role')).toBe('grid')
+    expect(cell(wrapper, 0, 0).attributes('tabindex')).toBe('0')
+    expect(cell(wrapper, 0, 1).attributes('tabindex')).toBe('-1')
+    expect(cell(wrapper, -1, 0).attributes('tabindex')).toBe('-1')
+    expect(wrapper.find('tfoot [data-grid-cell]').exists()).toBe(false)
+  })
+
+  it('moves the focus with the arrow, Home, End and Page keys', async () => {
+    const wrapper = mount(BTable, {
+      props: {items, fields, keyboardNav: true},
+      attachTo: document.body,
+    })
+    const press = async (row: number, column: number, key: string, ctrlKey = false) => {
+      await cell(wrapper, row, column).trigger('keydown', {key, ctrlKey})
+      await nextTick()
+    }
+    await press(0, 0, 'ArrowRight')
+    expect(document.activeElement).toBe(cell(wrapper, 0, 1).element)
+    expect(cell(wrapper, 0, 1).attributes('tabindex')).toBe('0')
+    expect(cell(wrapper, 0, 0).attributes('tabindex')).toBe('-1')
+    await press(0, 1, 'ArrowDown')
+    expect(document.activeElement).toBe(cell(wrapper, 1, 1).element)
+    await press(1, 1, 'Home')
+    expect(document.activeElement).toBe(cell(wrapper, 1, 0).element)
+    await press(1, 0, 'End', true)
+    expect(document.activeElement).toBe(cell(wrapper, 2, 1).element)
+    await press(2, 1, 'PageUp')
+    expect(document.activeElement).toBe(cell(wrapper, -1, 1).element)
+    await press(-1, 1, 'PageDown')
+    expect(document.activeElement).toBe(cell(wrapper, 2, 1).element)
+    await press(2, 1, 'ArrowDown')
+    expect(document.activeElement).toBe(cell(wrapper, 2, 1).element)
+  })
+
+  it('selects with Space and emits row-clicked with the keyboard event', async () => {
+    const wrapper = mount(BTable, {
+      props: {items, fields, keyboardNav: true, selectable: true},
+    })
+    await cell(wrapper, 1, 0).trigger('keydown', {key: ' '})
+    expect(wrapper.emitted('update:selectedItems')?.at(-1)).toEqual([[items[1]]])
+    const [item, index, event] = wrapper.emitted<unknown[]>('row-clicked')?.at(-1) ?? []
+    expect(item).toEqual(items[1])
+    expect(index).toBe(1)
+    expect(event).toBeInstanceOf(KeyboardEvent)
+    expect(wrapper.findAll('tbody tr')[1].attributes('aria-selected')).toBe('true')
+    expect(wrapper.find('table').attributes('aria-multiselectable')).toBe('true')
+  })
+
+  it('extends the selection with Shift and the arrow keys in range mode', async () => {
+    const wrapper = mount(BTable, {
+      props: {items, fields, keyboardNav: true, selectable: true, selectMode: 'range'},
+    })
+    await cell(wrapper, 0, 0).trigger('keydown', {key: 'ArrowDown', shiftKey: true})
+    expect(wrapper.emitted('update:selectedItems')?.at(-1)).toEqual([[items[0], items[1]]])
+    await wrapper.setProps({selectedItems: [items[0], items[1]]})
+    await cell(wrapper, 1, 0).trigger('keydown', {key: 'ArrowDown', shiftKey: true})
+    expect(wrapper.emitted('update:selectedItems')?.at(-1)).toEqual([items])
+  })
+
+  it('toggles the row details with Enter', async () => {
+    const wrapper = mount(BTable, {
+      props: {items: items.map((el) => ({...el})), fields, keyboardNav: true},
+      slots: {'row-details': 'Details'},
+    })
+    await cell(wrapper, 0, 0).trigger('keydown', {key: 'Enter'})
+    expect(wrapper.text()).toContain('Details')
+    expect(wrapper.emitted('row-clicked')).toHaveLength(1)
+    await cell(wrapper, 0, 0).trigger('keydown', {key: 'Enter'})
+    expect(wrapper.text()).not.toContain('Details')
+  })
+
+  it('sorts with Enter on a header cell', async () => {
+    const wrapper = mount(BTable, {props: {items, fields, keyboardNav: true}})
+    await cell(wrapper, -1, 1).trigger('keydown', {key: 'Enter'})
+    expect(wrapper.emitted('update:sortBy')?.at(-1)).toEqual([[{key: 'name', order: 'asc'}]])
+  })
+
+  it('ignores keys pressed inside of the content of a cell', async () => {
+    const wrapper = mount(BTable, {
+      props: {items, fields, keyboardNav: true, selectable: true},
+      slots: {'cell(name)': '<input class="cell-input" />'},
+    })
+    await wrapper.find('.cell-input').trigger('keydown', {key: ' '})
+    expect(wrapper.emitted('update:selectedItems')).toBeUndefined()
+  })
+})
+
+describe('responsive columns', () => {
+  const items = [
+    {a: 'a0', b: 'b0', c: 'c0', d: 'd0'},
+    {a: 'a1', b: 'b1', c: 'c1', d: 'd1'},
+  ]
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  const headers = (wrapper: ReturnType<typeof mount>) =>
+    wrapper.findAll('thead th').map((el) => el.text())
+
+  it('collapses the columns with hideBelow while the viewport is narrower', async () => {
+    const wrapper = mount(BTable, {
+      props: {items, fields: ['a', 'b', {key: 'c', hideBelow: 'xl'}, 'd']},
+    })
+    await flushPromises()
+    expect(headers(wrapper)).toEqual(['', 'A', 'B', 'D'])
+    expect(wrapper.find('.b-table-collapsed-toggle').exists()).toBe(true)
+  })
+
+  it('collapses the columns with the highest priority until the table fits', async () => {
+    let available = 300
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockImplementation(() => available)
+    vi.spyOn(HTMLElement.prototype, 'offsetWidth', 'get').mockImplementation(function (
+      this: HTMLElement
+    ) {
+      return this.tagName === 'TABLE' ? this.querySelectorAll('thead th').length * 100 : 0
+    })
+    const wrapper = mount(BTable, {
+      props: {
+        items,
+        fields: ['a', {key: 'b', priority: 1}, {key: 'c', priority: 2}, {key: 'd', priority: 1}],
+      },
+      attachTo: document.body,
+    })
+    for (let i = 0; i < 5; i++) await flushPromises()
+    expect(headers(wrapper)).toEqual(['', 'A', 'B'])
+    available = 400
+    await wrapper.setProps({
+      fields: ['a', {key: 'b', priority: 1}, {key: 'c', priority: 2}, {key: 'd', priority: 1}],
+    })
+    for (let i = 0; i < 5; i++) await flushPromises()
+    expect(headers(wrapper)).toEqual(['A', 'B', 'C', 'D'])
+  })
+
+  it('renders the collapsed cells with the cell slots in a details row', async () => {
+    const wrapper = mount(BTable, {
+      props: {items, fields: ['a', {key: 'c', label: 'Column C', hideBelow: 'xl'}]},
+      slots: {
+        'cell(c)': '<template #cell(c)="{value}"><b class="slot-c">{{ value }}</b></template>',
+      },
+    })
+    await flushPromises()
+    expect(wrapper.find('.b-table-collapsed-details').exists()).toBe(false)
+    const toggle = wrapper.find('.b-table-collapsed-toggle')
+    expect(toggle.attributes('aria-expanded')).toBe('false')
+    await toggle.trigger('click')
+    const details = wrapper.find('.b-table-collapsed-details')
+    expect(details.find('dt').text()).toBe('Column C')
+    expect(details.find('.slot-c').text()).toBe('c0')
+    expect(wrapper.emitted('row-clicked')).toBeUndefined()
+    await toggle.trigger('click')
+    expect(wrapper.find('.b-table-collapsed-details').exists()).toBe(false)
+  })
+
+  it('does not collapse the columns when stacked', async () => {
+    const wrapper = mount(BTable, {
+      props: {items, fields: ['a', {key: 'c', hideBelow: 'xl'}], stacked: true},
+    })
+    await flushPromises()
+    expect(wrapper.find('.b-table-collapsed-toggle').exists()).toBe(false)
+  })
+})
@@ -1,6 +1,7 @@
 import {enableAutoUnmount, mount} from '@vue/test-utils'
 import {afterEach, describe, expect, it} from 'vitest'
 import BTbody from './BTbody.vue'
+import {TransitionGroup} from 'vue'
 
 describe('tbody', () => {
   enableAutoUnmount(afterEach)
@@ -20,4 +21,29 @@ describe('tbody', () => {
     await wrapper.setProps({variant: undefined})
     expect(wrapper.classes()).not.toContain('thead-primary')
   })
+
+  it('renders a tbody without a transition group by default', () => {
+    const wrapper = mount(BTbody, {global: {stubs: {'transition-group': false}}})
+    expect(wrapper.element.tagName).toBe('TBODY')
+    expect(wrapper.findComponent(TransitionGroup).exists()).toBe(false)
+  })
+
+  it('renders a transition group as tbody when prop tbodyTransitionProps', () => {
+    const wrapper = mount(BTbody, {
+      props: {tbodyTransitionProps: {name: 'flip'}, variant: 'primary'},
+      global: {stubs: {'transition-group': false}},
+    })
+    expect(wrapper.element.tagName).toBe('TBODY')
+    expect(wrapper.classes()).toContain('thead-primary')
+    expect(wrapper.findComponent(TransitionGroup).props('name')).toBe('flip')
+  })
+
+  it('renders a transition group as tbody when prop tbodyTransitionHandlers', () => {
+    const wrapper = mount(BTbody, {
+      props: {tbodyTransitionHandlers: {enter: () => {}}},
+      global: {stubs: {'transition-group': false}},
+    })
+    expect(wrapper.element.tagName).toBe('TBODY')
+    expect(wrapper.findComponent(TransitionGroup).exists()).toBe(true)
+  })
 })
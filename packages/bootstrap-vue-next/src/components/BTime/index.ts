@@ -0,0 +1 @@
+export {default as BTime} from './BTime.vue'
@@ -0,0 +1,108 @@
+import {enableAutoUnmount, mount} from '@vue/test-utils'
+import {afterEach, describe, expect, it} from 'vitest'
+import BTime from './BTime.vue'
+import BForm from '../BForm/BForm.vue'
+import BFormSpinbutton from '../BFormSpinbutton/BFormSpinbutton.vue'
+import {rtlPluginKey} from '../../utils/keys'
+import {h, nextTick, ref} from 'vue'
+
+describe('time', () => {
+  enableAutoUnmount(afterEach)
+
+  const getSpinbutton = (wrapper: ReturnType<typeof mount>, part: string) =>
+    wrapper.get(`.b-time-${part} [role="spinbutton"]`)
+
+  it('has static class b-time', () => {
+    const wrapper = mount(BTime)
+    expect(wrapper.classes()).toContain('b-time')
+    expect(wrapper.attributes('role')).toBe('group')
+  })
+
+  it('renders a spinbutton for hours and minutes', () => {
+    const wrapper = mount(BTime, {props: {hour12: false}})
+    const spinbuttons = wrapper.findAllComponents(BFormSpinbutton)
+    expect(spinbuttons).toHaveLength(2)
+    expect(spinbuttons[0].props('max')).toBe(23)
+    expect(spinbuttons[1].props('max')).toBe(59)
+  })
+
+  it('renders a spinbutton for seconds when showSeconds is set', () => {
+    const wrapper = mount(BTime, {props: {hour12: false, showSeconds: true}})
+    expect(wrapper.find('.b-time-seconds').exists()).toBe(true)
+  })
+
+  it('derives hour12 from the locale', () => {
+    const us = mount(BTime, {props: {locale: 'en-US'}})
+    expect(us.find('.b-time-ampm').exists()).toBe(true)
+    expect(getSpinbutton(us, 'hours').attributes('aria-valuemax')).toBe('12')
+    const de = mount(BTime, {props: {locale: 'de-DE'}})
+    expect(de.find('.b-time-ampm').exists()).toBe(false)
+    expect(getSpinbutton(de, 'hours').attributes('aria-valuemax')).toBe('23')
+  })
+
+  it('shows the value in the spinbuttons and the header', () => {
+    const wrapper = mount(BTime, {
+      props: {modelValue: '13:05:00', locale: 'en-US'},
+    })
+    expect(getSpinbutton(wrapper, 'hours').attributes('aria-valuenow')).toBe('1')
+    expect(getSpinbutton(wrapper, 'minutes').attributes('aria-valuenow')).toBe('5')
+    expect(getSpinbutton(wrapper, 'ampm').attributes('aria-valuetext')).toBe('PM')
+    expect(wrapper.get('.b-time-header').text()).toContain('1:05 PM')
+  })
+
+  it('shows the no time label when there is no value', () => {
+    const wrapper = mount(BTime, {props: {labelNoTimeSelected: 'Nothing'}})
+    expect(wrapper.get('.b-time-header').text()).toBe('Nothing')
+  })
+
+  it('emits a HH:mm:ss value and fills in the other parts with zero', async () => {
+    const wrapper = mount(BTime, {props: {hour12: false, showSeconds: true}})
+    wrapper.findAllComponents(BFormSpinbutton)[1].vm.$emit('update:modelValue', 15)
+    expect(wrapper.emitted('update:modelValue')?.[0]).toEqual(['00:15:00'])
+  })
+
+  it('keeps the AM/PM period when the hours change in 12 hour mode', async () => {
+    const wrapper = mount(BTime, {
+      props: {modelValue: '13:30:00', hour12: true},
+    })
+    wrapper.findAllComponents(BFormSpinbutton)[0].vm.$emit('update:modelValue', 12)
+    expect(wrapper.emitted('update:modelValue')?.[0]).toEqual(['12:30:00'])
+    wrapper.findAllComponents(BFormSpinbutton)[2].vm.$emit('update:modelValue', 0)
+    expect(wrapper.emitted('update:modelValue')?.[1]).toEqual(['00:30:00'])
+  })
+
+  it('moves the focus between the spinbuttons with the horizontal arrow keys', async () => {
+    const wrapper = mount(BTime, {props: {hour12: false}, attachTo: document.body})
+    await nextTick()
+    const hours = getSpinbutton(wrapper, 'hours')
+    const minutes = getSpinbutton(wrapper, 'minutes')
+    ;(hours.element as HTMLElement).focus()
+    await hours.trigger('keydown', {key: 'ArrowRight'})
+    expect(document.activeElement).toBe(minutes.element)
+    await minutes.trigger('keydown', {key: 'ArrowLeft'})
+    expect(document.activeElement).toBe(hours.element)
+  })
+
+  it('reverses the horizontal arrow keys in RTL', async () => {
+    const wrapper = mount(BTime, {
+      props: {hour12: false},
+      attachTo: document.body,
+      global: {provide: {[rtlPluginKey as symbol]: {isRtl: ref(true), locale: ref('ar')}}},
+    })
+    expect(wrapper.attributes('dir')).toBe('rtl')
+    await nextTick()
+    const hours = getSpinbutton(wrapper, 'hours')
+    ;(hours.element as HTMLElement).focus()
+    await hours.trigger('keydown', {key: 'ArrowLeft'})
+    expect(document.activeElement).toBe(getSpinbutton(wrapper, 'minutes').element)
+  })
+
+  it('is disabled while its BForm is busy', () => {
+    const wrapper = mount(BForm, {
+      props: {busy: true},
+      slots: {default: () => h(BTime, {hour12: false})},
+    })
+    const spinbuttons = wrapper.findAllComponents(BFormSpinbutton)
+    expect(spinbuttons.map((spinbutton) => spinbutton.props('disabled'))).toEqual([true, true])
+  })
+})
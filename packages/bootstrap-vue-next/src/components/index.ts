@@ -4,6 +4,7 @@ export * from './BAvatar'
 export * from './BBadge'
 export * from './BBreadcrumb'
 export * from './BButton'
+export * from './BCalendar'
 export * from './BCard'
 export * from './BCarousel'
 export * from './BCollapse'
@@ -11,6 +12,7 @@ export * from './BContainer'
 export * from './BDropdown'
 export * from './BForm'
 export * from './BFormCheckbox'
+export * from './BFormDatepicker'
 export * from './BFormFile'
 export * from './BFormGroup'
 export * from './BFormInput'
@@ -19,6 +21,7 @@ export * from './BFormSelect'
 export * from './BFormSpinbutton'
 export * from './BFormTags'
 export * from './BFormTextarea'
+export * from './BFormTimepicker'
 export * from './BImg'
 export * from './BInputGroup'
 export * from './BLink'
@@ -35,5 +38,6 @@ export * from './BProgress'
 export * from './BSpinner'
 export * from './BTable'
 export * from './BTabs'
+export * from './BTime'
 export * from './BToast'
 export * from './BTooltip'
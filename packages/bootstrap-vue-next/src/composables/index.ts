@@ -1,5 +1,7 @@
 export {useBreadcrumb} from './useBreadcrumb'
 export {useColorMode} from './useColorMode'
+export {useFormValidation} from './useFormValidation'
+export {useLeaveGuard} from './useLeaveGuard'
 export {useModal} from './useModal'
 export {useModalController} from './useModalController'
 export {useScrollspy} from './useScrollspy'
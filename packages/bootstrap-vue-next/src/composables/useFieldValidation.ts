@@ -0,0 +1,112 @@
+import {
+  computed,
+  inject,
+  type MaybeRefOrGetter,
+  onScopeDispose,
+  type Ref,
+  ref,
+  shallowRef,
+  toValue,
+  watch,
+} from 'vue'
+import type {ValidationState} from '../types/CommonTypes'
+import type {FormValidationRules} from '../types/FormValidationTypes'
+import {normalizeRules, validateRules} from '../utils/formValidation'
+import {formValidationPluginKey} from '../utils/keys'
+import {deepEqual} from '../utils/object'
+
+/**
+ * Validates the value of a form control with its `rules`, and registers it with the closest `BForm`
+ *
+ * The value is a getter, since a `BFormGroup` only receives the value of its control once the control is set up
+ */
+export const useFieldValidation = (
+  rules: MaybeRefOrGetter<FormValidationRules | undefined>,
+  modelValue: () => Ref<unknown> | undefined,
+  id: Readonly<Ref<string>>,
+  name: MaybeRefOrGetter<string | undefined> = undefined
+) => {
+  const errors = ref<string[]>([])
+  const validated = ref(false)
+  const isTouched = ref(false)
+  const initialValue = shallowRef<unknown>()
+  let request = 0
+
+  const getValue = () => modelValue()?.value
+
+  watch(
+    modelValue,
+    (value) => {
+      initialValue.value = value?.value
+    },
+    {immediate: true}
+  )
+
+  const hasRules = computed(() => normalizeRules(toValue(rules)).length > 0)
+  const isDirty = computed(() => !deepEqual(getValue(), initialValue.value))
+  const state = computed<ValidationState>(() =>
+    hasRules.value && validated.value ? errors.value.length === 0 : null
+  )
+
+  const validate = async () => {
+    const current = ++request
+    const result = await validateRules(toValue(rules), getValue())
+    // A newer validation, or a reset, supersedes this one
+    if (current === request) {
+      errors.value = result
+      validated.value = true
+    }
+    return result.length === 0
+  }
+
+  const reset = () => {
+    request++
+    errors.value = []
+    validated.value = false
+    isTouched.value = false
+    const value = modelValue()
+    if (value !== undefined && !deepEqual(value.value, initialValue.value)) {
+      value.value = initialValue.value
+    }
+  }
+
+  const markPristine = () => {
+    initialValue.value = getValue()
+    isTouched.value = false
+  }
+
+  /**
+   * Marks the control as touched, once the user has left it
+   */
+  const touch = () => {
+    isTouched.value = true
+  }
+
+  watch(getValue, (value) => {
+    if (!hasRules.value) return
+    // Pristine values aren't validated, so resetting a field doesn't mark it invalid
+    if (!validated.value && deepEqual(value, initialValue.value)) return
+    void validate()
+  })
+
+  const form = inject(formValidationPluginKey, null)
+  if (form !== null) {
+    onScopeDispose(
+      form.register({
+        id,
+        name: computed(() => toValue(name)),
+        value: computed(getValue),
+        hasRules,
+        errors,
+        state,
+        isDirty,
+        isTouched,
+        validate,
+        reset,
+        markPristine,
+      })
+    )
+  }
+
+  return {errors, isDirty, isTouched, markPristine, reset, state, touch, validate}
+}
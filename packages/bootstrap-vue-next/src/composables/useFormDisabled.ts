@@ -0,0 +1,11 @@
+import {computed, inject, type MaybeRefOrGetter, toValue} from 'vue'
+import {formInjectionKey} from '../utils/keys'
+
+/**
+ * Whether a form control is disabled, either by its own prop or while its `BForm` is busy
+ */
+export const useFormDisabled = (disabled: MaybeRefOrGetter<boolean | undefined>) => {
+  const form = inject(formInjectionKey, null)
+
+  return computed(() => (form?.busy.value === true ? true : toValue(disabled)))
+}
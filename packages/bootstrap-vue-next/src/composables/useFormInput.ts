@@ -8,21 +8,42 @@ import {
   ref,
   type Ref,
   type ShallowRef,
+  watch,
 } from 'vue'
 import {useAriaInvalid} from './useAriaInvalid'
+import {useFieldValidation} from './useFieldValidation'
+import {useFormDisabled} from './useFormDisabled'
 import {useId} from './useId'
+import {useRtl} from './useRtl'
 import {useDebounceFn, useFocus, useToNumber} from '@vueuse/core'
+import type {BFormInputProps} from '../types/ComponentProps'
 import type {CommonInputProps} from '../types/FormCommonInputProps'
 import {formGroupPluginKey} from '../utils/keys'
+import {applyMask} from '../utils/mask'
+import {parseLocaleNumber} from '../utils/numberFormat'
 import {useStateClass} from './useStateClass'
 
 export const useFormInput = (
-  props: Readonly<CommonInputProps>,
+  props: Readonly<
+    CommonInputProps &
+      Pick<
+        BFormInputProps,
+        | 'locale'
+        | 'mask'
+        | 'max'
+        | 'min'
+        | 'noWheel'
+        | 'numberFormat'
+        | 'numeric'
+        | 'step'
+        | 'wheel'
+      >
+  >,
   input:
     | Readonly<ShallowRef<HTMLInputElement | null>>
     | Readonly<ShallowRef<HTMLTextAreaElement | null>>,
   modelValue: Ref<Numberish | null>,
-  modelModifiers: Record<'number' | 'lazy' | 'trim', true | undefined>
+  modelModifiers: Record<'number' | 'lazy' | 'trim', true | undefined> & {unmasked?: true}
 ) => {
   const forceUpdateKey = ref(0)
 
@@ -30,23 +51,37 @@ export const useFormInput = (
   const debounceNumber = useToNumber(() => props.debounce ?? 0)
   const debounceMaxWaitNumber = useToNumber(() => props.debounceMaxWait ?? NaN)
 
+  const validation = useFieldValidation(
+    () => props.rules,
+    () => modelValue as Ref<unknown>,
+    computedId,
+    () => props.name
+  )
+
   // This automatically adds the appropriate "for" attribute to a BFormGroup label
-  const formGroupData = inject(formGroupPluginKey, null)?.(computedId)
+  const formGroupData = inject(formGroupPluginKey, null)?.(computedId, {
+    modelValue: modelValue as Ref<unknown>,
+    state: validation.state,
+    errors: validation.errors,
+  })
   const computedState = computed(() =>
-    props.state !== undefined ? props.state : (formGroupData?.state.value ?? null)
+    props.state !== undefined
+      ? props.state
+      : (validation.state.value ?? formGroupData?.state.value ?? null)
   )
   const computedAriaInvalid = useAriaInvalid(() => props.ariaInvalid, computedState)
   const stateClass = useStateClass(computedState)
+  const computedDisabled = useFormDisabled(() => props.disabled)
 
   const internalUpdateModelValue = useDebounceFn(
-    (value: Numberish) => {
+    (value: Numberish | null) => {
       modelValue.value = value
     },
     () => (modelModifiers.lazy === true ? 0 : debounceNumber.value),
     {maxWait: () => (modelModifiers.lazy === true ? NaN : debounceMaxWaitNumber.value)}
   )
 
-  const updateModelValue = (value: Numberish, force = false) => {
+  const updateModelValue = (value: Numberish | null, force = false) => {
     if (modelModifiers.lazy === true && force === false) return
     internalUpdateModelValue(value)
   }
@@ -61,9 +96,122 @@ export const useFormInput = (
     }
     return value
   }
+  const getMask = (value: string) =>
+    typeof props.mask === 'function' ? props.mask(value) : props.mask
+
+  const maskedValue = computed(() => {
+    if (props.mask === undefined || props.numeric) return undefined
+    const value = modelValue.value?.toString() ?? ''
+    const mask = getMask(value)
+    return mask === undefined ? undefined : applyMask(value, mask)
+  })
+
+  /**
+   * Masks the value of the input and keeps the caret after the same characters,
+   * then returns the masked or the unmasked value for the model
+   */
+  const _maskValue = (value: string) => {
+    const mask = getMask(value)
+    const el = input.value
+    if (mask === undefined || el === null) return value
+    const {masked, unmasked, positions} = applyMask(value, mask)
+    if (el.value !== masked) {
+      const caret = el.selectionEnd ?? value.length
+      const before = applyMask(value.slice(0, caret), mask).unmasked.length
+      el.value = masked
+      if (el === document.activeElement) {
+        const position = before === 0 ? 0 : (positions[before - 1] ?? masked.length)
+        el.setSelectionRange(position, position)
+      }
+    }
+    return modelModifiers.unmasked ? unmasked : masked
+  }
+
+  const {locale: globalLocale} = useRtl()
+  const numberLocale = computed(() => (props.locale ?? globalLocale?.value) || undefined)
+  const minNumber = useToNumber(() => props.min ?? NaN)
+  const maxNumber = useToNumber(() => props.max ?? NaN)
+  const stepNumber = useToNumber(() => props.step ?? NaN)
+
+  const isPercent = computed(() => props.numberFormat?.style === 'percent')
+  const numberFormatter = computed(
+    () => new Intl.NumberFormat(numberLocale.value, props.numberFormat)
+  )
+  // A focused numeric input displays the number without grouping, currency or percent sign
+  const editFormatter = computed(() => {
+    const {minimumFractionDigits, maximumFractionDigits} = numberFormatter.value.resolvedOptions()
+    return new Intl.NumberFormat(numberLocale.value, {
+      useGrouping: false,
+      minimumFractionDigits,
+      maximumFractionDigits,
+    })
+  })
+
+  const toModelNumber = (value: Numberish | null) => {
+    if (value === null || value === '') return null
+    const number = Number(value)
+    return Number.isNaN(number) ? null : number
+  }
+
+  // The model is behind the input when its update is debounced or lazy
+  const numericValue = ref(toModelNumber(modelValue.value))
+  watch(modelValue, (value) => {
+    numericValue.value = toModelNumber(value)
+  })
+  // A focused numeric input displays the text as it is typed
+  const numericText = ref('')
+
+  const parseNumber = (value: string) => {
+    const number = parseLocaleNumber(value, numberLocale.value)
+    // Percents are typed as percents, but their value is a fraction
+    return number !== null && isPercent.value ? number / 100 : number
+  }
+
+  const formatEditable = (value: number | null) =>
+    value === null ? '' : editFormatter.value.format(isPercent.value ? value * 100 : value)
+
+  /**
+   * Rounds the number to the step and to the precision of the format, then clamps it to min and max
+   */
+  const normalizeNumber = (value: number | null) => {
+    if (value === null) return null
+    const base = Number.isNaN(minNumber.value) ? 0 : minNumber.value
+    const stepped =
+      stepNumber.value > 0
+        ? base + Math.round((value - base) / stepNumber.value) * stepNumber.value
+        : value
+    const precision =
+      (numberFormatter.value.resolvedOptions().maximumFractionDigits ?? 3) +
+      (isPercent.value ? 2 : 0)
+    let result = Number(stepped.toFixed(precision))
+    if (!Number.isNaN(minNumber.value)) result = Math.max(result, minNumber.value)
+    if (!Number.isNaN(maxNumber.value)) result = Math.min(result, maxNumber.value)
+    return result
+  }
+
+  watch(
+    focused,
+    (value) => {
+      if (value && props.numeric) numericText.value = formatEditable(numericValue.value)
+    },
+    {immediate: true}
+  )
+
+  /**
+   * The value to display, which is masked even when the model holds the unmasked value,
+   * and formatted in numeric mode
+   */
+  const displayValue = computed(() => {
+    if (props.numeric) {
+      if (focused.value) return numericText.value
+      return numericValue.value === null ? '' : numberFormatter.value.format(numericValue.value)
+    }
+    return maskedValue.value?.masked ?? modelValue.value
+  })
+
   onMounted(() => {
     if (input.value) {
-      input.value.value = modelValue.value?.toString() ?? ''
+      input.value.value = displayValue.value?.toString() ?? ''
     }
   })
 
@@ -77,18 +225,26 @@ export const useFormInput = (
 
   const onInput = (evt: Readonly<Event>) => {
     const {value} = evt.target as HTMLInputElement
+    if (props.numeric) {
+      numericText.value = value
+      numericValue.value = parseNumber(value)
+      updateModelValue(numericValue.value)
+      return
+    }
     const formattedValue = _formatValue(value, evt)
     if (evt.defaultPrevented) {
       evt.preventDefault()
       return
     }
 
-    const nextModel = formattedValue
+    const nextModel = _maskValue(formattedValue)
 
     updateModelValue(nextModel)
   }
 
   const onChange = (evt: Readonly<Event>) => {
+    // A numeric input is updated once it is left
+    if (props.numeric) return
     const {value} = evt.target as HTMLInputElement
     const formattedValue = _formatValue(value, evt)
     if (evt.defaultPrevented) {
@@ -96,17 +252,26 @@ export const useFormInput = (
       return
     }
 
-    const nextModel = formattedValue
+    const nextModel = _maskValue(formattedValue)
     if (modelValue.value !== nextModel) {
-      updateModelValue(formattedValue, true)
+      updateModelValue(nextModel, true)
     }
   }
 
   const onBlur = (evt: Readonly<FocusEvent>) => {
+    validation.touch()
+    if (props.numeric) {
+      const value = normalizeNumber(parseNumber((evt.target as HTMLInputElement).value))
+      numericValue.value = value
+      numericText.value = formatEditable(value)
+      // Always updated, so it replaces a pending debounced update
+      updateModelValue(value, true)
+      return
+    }
     if (!modelModifiers.lazy && !props.lazyFormatter && !modelModifiers.trim) return
 
     const {value} = evt.target as HTMLInputElement
-    const formattedValue = _formatValue(value, evt, true)
+    const formattedValue = _maskValue(_formatValue(value, evt, true))
 
     const nextModel = modelModifiers.trim ? formattedValue.trim() : formattedValue
     const needsForceUpdate = nextModel.length !== formattedValue.length
@@ -120,14 +285,33 @@ export const useFormInput = (
     }
   }
 
+  const onWheel = (evt: WheelEvent) => {
+    if (!focused.value) return
+    if (!props.numeric) {
+      if (props.noWheel) {
+        // Number-like inputs change their value with the wheel while they are focused
+        evt.preventDefault()
+        input.value?.blur()
+      }
+      return
+    }
+    if (!props.wheel || computedDisabled.value || props.readonly) return
+    evt.preventDefault()
+    const step = stepNumber.value > 0 ? stepNumber.value : 1
+    const value = normalizeNumber((numericValue.value ?? 0) + (evt.deltaY < 0 ? step : -step))
+    numericValue.value = value
+    numericText.value = formatEditable(value)
+    updateModelValue(value, true)
+  }
+
   const focus = () => {
-    if (!props.disabled) {
+    if (!computedDisabled.value) {
       focused.value = true
     }
   }
 
   const blur = () => {
-    if (!props.disabled) {
+    if (!computedDisabled.value) {
       focused.value = false
     }
   }
@@ -136,12 +320,16 @@ export const useFormInput = (
     input,
     computedId,
     computedAriaInvalid,
+    computedDisabled,
     onInput,
     onChange,
     onBlur,
+    onWheel,
     focus,
     blur,
     forceUpdateKey,
     stateClass,
+    displayValue,
+    maskedValue,
   }
 }
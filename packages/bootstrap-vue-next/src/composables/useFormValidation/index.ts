@@ -0,0 +1,85 @@
+import {computed, provide, shallowRef} from 'vue'
+import type {
+  FormValidationErrors,
+  FormValidationField,
+  FormValues,
+} from '../../types/FormValidationTypes'
+import {formValidationPluginKey} from '../../utils/keys'
+
+/**
+ * Collects the validation of the form controls of the component, such as `BFormInput` and `BFormGroup` with a `rules` prop.
+ * `BForm` uses it to expose the same methods
+ */
+export const useFormValidation = () => {
+  const fields = shallowRef<FormValidationField[]>([])
+
+  provide(formValidationPluginKey, {
+    register: (field) => {
+      fields.value = [...fields.value, field]
+      return () => {
+        fields.value = fields.value.filter((el) => el !== field)
+      }
+    },
+  })
+
+  const errors = computed<FormValidationErrors>(() =>
+    fields.value.reduce<Record<string, string[]>>((acc, field) => {
+      if (field.errors.value.length > 0) {
+        acc[field.id.value] = [...(acc[field.id.value] ?? []), ...field.errors.value]
+      }
+      return acc
+    }, {})
+  )
+
+  const hasRules = computed(() => fields.value.some((field) => field.hasRules.value))
+
+  const isDirty = computed(() => fields.value.some((field) => field.isDirty.value))
+
+  const isTouched = computed(() => fields.value.some((field) => field.isTouched.value))
+
+  const isValid = computed(() => Object.keys(errors.value).length === 0)
+
+  /**
+   * The values of the controls that have a name, by name
+   */
+  const values = computed<FormValues>(() =>
+    fields.value.reduce<FormValues>((acc, field) => {
+      if (field.name.value) acc[field.name.value] = field.value.value
+      return acc
+    }, {})
+  )
+
+  /**
+   * Validates every field, and resolves to `true` when all of them are valid
+   */
+  const validate = async () => {
+    const results = await Promise.all(fields.value.map((field) => field.validate()))
+    return results.every(Boolean)
+  }
+
+  /**
+   * Restores the initial values of the fields and clears their validation state
+   */
+  const reset = () => {
+    fields.value.forEach((field) => field.reset())
+  }
+
+  /**
+   * Makes the current values the initial values, so the form is no longer dirty
+   */
+  const markPristine = () => {
+    fields.value.forEach((field) => field.markPristine())
+  }
+
+  return {
+    errors,
+    hasRules,
+    isDirty,
+    isTouched,
+    isValid,
+    markPristine,
+    reset,
+    validate,
+    values,
+  }
+}
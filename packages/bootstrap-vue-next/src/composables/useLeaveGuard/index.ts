@@ -0,0 +1,40 @@
+import {useEventListener} from '@vueuse/core'
+import {getCurrentInstance, type MaybeRefOrGetter, onScopeDispose, toValue} from 'vue'
+import type {Router} from 'vue-router'
+import type {LeaveGuardOptions} from '../../types/FormValidationTypes'
+
+/**
+ * Asks the user to confirm leaving the page while `when` is true, such as while a form has unsaved changes.
+ * It guards closing or reloading the page, and the navigations of the router when one is installed
+ */
+export const useLeaveGuard = (
+  when: MaybeRefOrGetter<boolean>,
+  options: Readonly<LeaveGuardOptions> = {}
+) => {
+  const instance = getCurrentInstance()
+  const router: Router | undefined = instance?.appContext.app.config.globalProperties.$router
+
+  /**
+   * Resolves to `true` when there is nothing to lose, or when the user confirms leaving
+   */
+  const confirmLeave = async () => {
+    if (!toValue(when)) return true
+    const message =
+      toValue(options.message) ?? 'You have unsaved changes. Do you really want to leave?'
+    if (options.confirm !== undefined) return options.confirm(message)
+    // eslint-disable-next-line no-alert
+    return typeof window === 'undefined' || window.confirm(message)
+  }
+
+  useEventListener('beforeunload', (event) => {
+    // Browsers only show their own message, and only when the event is cancelled
+    if (toValue(when)) event.preventDefault()
+  })
+
+  if (router !== undefined) {
+    // Changes of the query or the hash stay on the page
+    onScopeDispose(router.beforeEach((to, from) => to.path === from.path || confirmLeave()))
+  }
+
+  return {confirmLeave}
+}
@@ -0,0 +1,133 @@
+import {type MaybeRefOrGetter, nextTick, ref, toValue} from 'vue'
+
+/**
+ * Attribute that identifies the navigable cells, as `row:column`. The header row is row `-1`
+ */
+export const keyboardNavCellAttr = 'data-grid-cell'
+
+type TableKeyboardNavHandlers = {
+  /**
+   * Space on a body row
+   */
+  onSelect: (row: number, event: KeyboardEvent) => void
+  /**
+   * Enter on a body row
+   */
+  onActivate: (row: number, event: KeyboardEvent) => void
+  /**
+   * Shift with a vertical movement, from the row that had focus to the row that gets focus
+   */
+  onExtend: (from: number, to: number, event: KeyboardEvent) => void
+}
+
+/**
+ * Keyboard navigation following the ARIA grid pattern. A single cell is in the tab sequence (roving tabindex),
+ * and the arrow, Home, End, PageUp and PageDown keys move the focus between cells.
+ * Only key presses on the cells themselves are handled, so interactive content inside of cells keeps working
+ */
+export const useTableKeyboardNav = (
+  props: MaybeRefOrGetter<{
+    enabled: boolean
+    rowCount: number
+    columnCount: number
+    hasHeader: boolean
+    pageSize: number
+  }>,
+  handlers: TableKeyboardNavHandlers
+) => {
+  const active = ref({row: 0, column: 0})
+
+  const clamp = (row: number, column: number) => {
+    const {rowCount, columnCount, hasHeader} = toValue(props)
+    const firstRow = hasHeader || rowCount === 0 ? -1 : 0
+    return {
+      row: Math.min(Math.max(row, firstRow), rowCount - 1),
+      column: Math.min(Math.max(column, 0), columnCount - 1),
+    }
+  }
+
+  const getCellAttrs = (row: number, column: number) => {
+    if (!toValue(props).enabled) return {}
+    const current = clamp(active.value.row, active.value.column)
+    return {
+      [keyboardNavCellAttr]: `${row}:${column}`,
+      tabindex: current.row === row && current.column === column ? 0 : -1,
+    }
+  }
+
+  const getCell = (target: EventTarget | null) =>
+    target instanceof HTMLElement ? target.closest<HTMLElement>(`[${keyboardNavCellAttr}]`) : null
+
+  const parseCell = (cell: HTMLElement) => {
+    const [row, column] = (cell.getAttribute(keyboardNavCellAttr) ?? '').split(':').map(Number)
+    return {row, column}
+  }
+
+  const onFocusin = (event: FocusEvent) => {
+    const cell = getCell(event.target)
+    if (!toValue(props).enabled || cell === null) return
+    active.value = parseCell(cell)
+  }
+
+  const focusCell = async (root: HTMLElement, row: number, column: number) => {
+    active.value = clamp(row, column)
+    await nextTick()
+    root
+      .querySelector<HTMLElement>(
+        `[${keyboardNavCellAttr}="${active.value.row}:${active.value.column}"]`
+      )
+      ?.focus()
+  }
+
+  const onKeydown = (event: KeyboardEvent) => {
+    const cell = getCell(event.target)
+    const root = event.currentTarget as HTMLElement | null
+    if (!toValue(props).enabled || event.defaultPrevented || !root) return
+    if (cell === null || cell !== event.target) return
+
+    const {row, column} = parseCell(cell)
+    const {rowCount, columnCount, pageSize} = toValue(props)
+    const isRtl = getComputedStyle(cell).direction === 'rtl'
+    const moves: Record<string, () => [number, number]> = {
+      ArrowUp: () => [row - 1, column],
+      ArrowDown: () => [row + 1, column],
+      ArrowLeft: () => [row, isRtl ? column + 1 : column - 1],
+      ArrowRight: () => [row, isRtl ? column - 1 : column + 1],
+      Home: () => [event.ctrlKey ? 0 : row, 0],
+      End: () => [event.ctrlKey ? rowCount - 1 : row, columnCount - 1],
+      PageUp: () => [row - pageSize, column],
+      PageDown: () => [row + pageSize, column],
+    }
+
+    const move = moves[event.key]
+    if (move !== undefined) {
+      event.preventDefault()
+      const [nextRow, nextColumn] = move()
+      const target = clamp(nextRow, nextColumn)
+      if (event.shiftKey && row >= 0 && target.row >= 0 && target.row !== row) {
+        handlers.onExtend(row, target.row, event)
+      }
+      focusCell(root, target.row, target.column)
+      return
+    }
+
+    if (event.key !== ' ' && event.key !== 'Enter') return
+    event.preventDefault()
+    // The header cells behave like buttons, which sorts the column
+    if (row === -1) {
+      cell.click()
+      return
+    }
+    if (event.key === ' ') {
+      handlers.onSelect(row, event)
+    } else {
+      handlers.onActivate(row, event)
+    }
+  }
+
+  return {
+    getCellAttrs,
+    onKeydown,
+    onFocusin,
+  }
+}
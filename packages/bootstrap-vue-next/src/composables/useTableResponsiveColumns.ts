@@ -0,0 +1,82 @@
+import {breakpointsBootstrapV5, useBreakpoints, useResizeObserver} from '@vueuse/core'
+import {computed, type MaybeRefOrGetter, nextTick, onMounted, ref, toValue, watch} from 'vue'
+import type {TableField} from '../types/TableTypes'
+
+/**
+ * Collapses the columns that don't fit. Fields with `hideBelow` are collapsed while the viewport is narrower than
+ * the breakpoint. Fields with a `priority` are collapsed while the table is wider than its container, highest
+ * `priority` first, and are displayed again once the container is as wide as the table was when they were collapsed
+ */
+export const useTableResponsiveColumns = (
+  table: MaybeRefOrGetter<HTMLTableElement | null | undefined>,
+  fields: MaybeRefOrGetter<readonly TableField[]>,
+  enabled: MaybeRefOrGetter<boolean>
+) => {
+  const breakpoints = useBreakpoints(breakpointsBootstrapV5)
+
+  // The columns that were collapsed to fit, in the order they were collapsed
+  const collapsedToFit = ref<{key: string; requiredWidth: number}[]>([])
+
+  const collapsedKeys = computed(() => {
+    const keys = new Set<string>()
+    if (!toValue(enabled)) return keys
+    toValue(fields).forEach((field) => {
+      if (field.hideBelow !== undefined && !breakpoints[field.hideBelow].value) {
+        keys.add(String(field.key))
+      }
+    })
+    collapsedToFit.value.forEach((el) => keys.add(el.key))
+    return keys
+  })
+
+  const getContainer = () => toValue(table)?.parentElement ?? undefined
+
+  const update = () => {
+    const tableElement = toValue(table)
+    const container = getContainer()
+    if (!toValue(enabled) || !tableElement || !container) {
+      if (collapsedToFit.value.length > 0) collapsedToFit.value = []
+      return
+    }
+    const available = container.clientWidth
+    const keys = new Set(toValue(fields).map((field) => String(field.key)))
+    const stack = collapsedToFit.value.filter((el) => keys.has(el.key))
+    const last = stack[stack.length - 1]
+    if (last !== undefined && last.requiredWidth <= available) {
+      // One column at a time, the update after rendering displays the next one when it fits as well
+      collapsedToFit.value = stack.slice(0, -1)
+      return
+    }
+    if (tableElement.offsetWidth <= available) {
+      if (stack.length !== collapsedToFit.value.length) collapsedToFit.value = stack
+      return
+    }
+    const [next] = toValue(fields)
+      .filter(
+        (field) => field.priority !== undefined && !collapsedKeys.value.has(String(field.key))
+      )
+      .map((field, index) => ({field, index}))
+      // The last column goes first when the priorities are equal
+      .sort((a, b) => (b.field.priority ?? 0) - (a.field.priority ?? 0) || b.index - a.index)
+    if (next === undefined) return
+    collapsedToFit.value = [
+      ...stack,
+      {key: String(next.field.key), requiredWidth: tableElement.offsetWidth},
+    ]
+  }
+
+  useResizeObserver(getContainer, update)
+  onMounted(update)
+  watch(
+    [collapsedKeys, () => toValue(fields), () => toValue(enabled)],
+    () => {
+      nextTick(update)
+    },
+    {flush: 'post'}
+  )
+
+  return {
+    collapsedKeys,
+    update,
+  }
+}
@@ -0,0 +1,267 @@
+import {getCurrentInstance, type MaybeRefOrGetter, onScopeDispose, toValue, watch} from 'vue'
+import type {LocationQuery, LocationQueryRaw, Router} from 'vue-router'
+import type {
+  BTablePersist,
+  BTableSortBy,
+  BTableState,
+  BTableStateAdapter,
+} from '../types/TableTypes'
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isOptional = <T>(value: unknown, check: (value: unknown) => value is T) =>
+  value === undefined || check(value)
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+const isSortBy = (value: unknown): value is BTableSortBy =>
+  isRecord(value) &&
+  typeof value.key === 'string' &&
+  (value.order === undefined || value.order === 'asc' || value.order === 'desc')
+
+/**
+ * Whether a stored value has the shape of a state, since a value of another version or of another app
+ * would make the table throw while it is restored
+ */
+const isTableState = (value: unknown): value is BTableState =>
+  isRecord(value) &&
+  isOptional(value.sortBy, (el) => Array.isArray(el) && el.every(isSortBy)) &&
+  isOptional(value.filter, (el) => typeof el === 'string') &&
+  isOptional(value.currentPage, isNumber) &&
+  isOptional(value.perPage, isNumber) &&
+  isOptional(
+    value.visibleFields,
+    (el) => Array.isArray(el) && el.every((field) => typeof field === 'string')
+  ) &&
+  isOptional(value.selectedKeys, Array.isArray)
+
+const createStorageStateAdapter = (getStorage: () => Storage): BTableStateAdapter => ({
+  read: (key) => {
+    try {
+      const value = getStorage().getItem(key)
+      if (value === null) return undefined
+      const state: unknown = JSON.parse(value)
+      return isTableState(state) ? state : undefined
+    } catch {
+      // Storage can be unavailable (private browsing for example), or hold a value that is not ours
+      return undefined
+    }
+  },
+  write: (key, state) => {
+    try {
+      getStorage().setItem(key, JSON.stringify(state))
+    } catch {
+      // The state is simply not saved when the storage is unavailable or full
+    }
+  },
+})
+
+const queryParams = {
+  sortBy: 'sort',
+  filter: 'filter',
+  currentPage: 'page',
+  perPage: 'perPage',
+  visibleFields: 'fields',
+  selectedKeys: 'selected',
+} as const satisfies Record<keyof BTableState, string>
+
+/**
+ * Lists use a parameter per value, so the values can contain any character.
+ * An empty list is written as a single empty value, to tell it apart from a missing parameter
+ */
+const toQueryList = (values: readonly unknown[]) =>
+  values.length === 0 ? [''] : values.map((el) => String(el))
+const fromQueryList = (value: string | null | (string | null)[]) =>
+  (Array.isArray(value) ? value : [value]).filter((el): el is string => el !== null && el !== '')
+
+/**
+ * Reads the state from the query, where every property has its own parameter prefixed with the key.
+ * Parameters that are missing are read as the defaults, so navigating to a URL without them resets the table
+ */
+const parseQueryState = (key: string, query: Readonly<LocationQuery>): BTableState => {
+  const list = (name: keyof BTableState) => {
+    const value = query[`${key}.${queryParams[name]}`]
+    return value === undefined ? undefined : fromQueryList(value)
+  }
+  const param = (name: keyof BTableState) => list(name)?.[0]
+  const state: BTableState = {
+    sortBy: (list('sortBy') ?? []).map((el) => {
+      // The order is split off at the last colon, so the key can contain colons
+      const index = el.lastIndexOf(':')
+      const order = index === -1 ? undefined : el.slice(index + 1)
+      return order === 'asc' || order === 'desc'
+        ? {key: el.slice(0, index), order}
+        : {key: el, order: undefined}
+    }),
+    filter: param('filter') ?? '',
+    currentPage: Number(param('currentPage') ?? 1) || 1,
+  }
+  const perPage = Number(param('perPage'))
+  if (perPage > 0) state.perPage = perPage
+  const visibleFields = list('visibleFields')
+  if (visibleFields !== undefined) state.visibleFields = visibleFields
+  const selectedKeys = list('selectedKeys')
+  if (selectedKeys !== undefined) state.selectedKeys = selectedKeys
+  return state
+}
+
+const toQueryState = (
+  key: string,
+  state: BTableState
+): Record<string, string | string[] | undefined> => ({
+  [`${key}.${queryParams.sortBy}`]: state.sortBy?.length
+    ? state.sortBy.map((el: BTableSortBy) =>
+        el.order === undefined ? el.key : `${el.key}:${el.order}`
+      )
+    : undefined,
+  [`${key}.${queryParams.filter}`]: state.filter || undefined,
+  [`${key}.${queryParams.currentPage}`]:
+    state.currentPage === undefined || state.currentPage === 1
+      ? undefined
+      : String(state.currentPage),
+  [`${key}.${queryParams.perPage}`]: state.perPage?.toString(),
+  [`${key}.${queryParams.visibleFields}`]: state.visibleFields && toQueryList(state.visibleFields),
+  [`${key}.${queryParams.selectedKeys}`]: state.selectedKeys?.length
+    ? toQueryList(state.selectedKeys)
+    : undefined,
+})
+
+const hasQueryState = (key: string, query: Readonly<LocationQuery>) =>
+  Object.keys(query).some((el) => el.startsWith(`${key}.`))
+
+const getLocationQuery = (): LocationQuery => {
+  const params = new URLSearchParams(window.location.search)
+  return Object.fromEntries(
+    Array.from(new Set(params.keys()), (name) => {
+      const values = params.getAll(name)
+      return [name, values.length === 1 ? values[0] : values]
+    })
+  )
+}
+
+/**
+ * Saves the state in the URL query. The router is used when the app has one, so the route stays in sync.
+ * Otherwise the history entry is replaced directly
+ */
+const createQueryStateAdapter = (router: Router | undefined): BTableStateAdapter => {
+  const getQuery = () => (router ? router.currentRoute.value.query : getLocationQuery())
+  // Route changes that are caused by our own writes are not reported back to the table
+  let pendingWrites = 0
+  return {
+    read: (key) => {
+      const query = getQuery()
+      return hasQueryState(key, query) ? parseQueryState(key, query) : undefined
+    },
+    write: (key, state) => {
+      const values = toQueryState(key, state)
+      if (router) {
+        const query: LocationQueryRaw = {...router.currentRoute.value.query}
+        Object.entries(values).forEach(([name, value]) => {
+          if (value === undefined) delete query[name]
+          else query[name] = value
+        })
+        pendingWrites++
+        router
+          .replace({query})
+          .catch(() => {
+            // A guard or a hook can throw, in which case the state is simply not saved
+          })
+          .finally(() => {
+            pendingWrites--
+          })
+        return
+      }
+      const url = new URL(window.location.href)
+      Object.entries(values).forEach(([name, value]) => {
+        url.searchParams.delete(name)
+        const list = Array.isArray(value) ? value : value === undefined ? [] : [value]
+        list.forEach((el) => {
+          url.searchParams.append(name, el)
+        })
+      })
+      window.history.replaceState(window.history.state, '', url)
+    },
+    subscribe: (key, callback) => {
+      if (router) {
+        return watch(
+          () => router.currentRoute.value.query,
+          (query) => {
+            if (pendingWrites > 0) return
+            callback(parseQueryState(key, query))
+          }
+        )
+      }
+      const onPopState = () => {
+        callback(parseQueryState(key, getLocationQuery()))
+      }
+      window.addEventListener('popstate', onPopState)
+      return () => window.removeEventListener('popstate', onPopState)
+    },
+  }
+}
+
+/**
+ * Saves the state of a table whenever it changes, and restores it when the table is created
+ */
+export const useTableState = (
+  state: {
+    get: () => BTableState
+    set: (state: BTableState) => void
+  },
+  props: MaybeRefOrGetter<{
+    stateKey: string | undefined
+    persist: BTablePersist
+  }>
+) => {
+  const router: Router | undefined =
+    getCurrentInstance()?.appContext.app.config.globalProperties.$router
+
+  const getAdapter = (): BTableStateAdapter | undefined => {
+    const {persist} = toValue(props)
+    if (typeof persist === 'object') return persist
+    if (typeof window === 'undefined') return undefined
+    if (persist === 'query') return createQueryStateAdapter(router)
+    return createStorageStateAdapter(() =>
+      persist === 'session' ? window.sessionStorage : window.localStorage
+    )
+  }
+
+  // Compared to skip writing a state that did not change, since the query adapter navigates on every write
+  let lastWritten: string | undefined
+  let adapter: BTableStateAdapter | undefined
+  let stopSubscription: (() => void) | undefined
+
+  watch(
+    () => [toValue(props).stateKey, toValue(props).persist] as const,
+    ([key]) => {
+      stopSubscription?.()
+      stopSubscription = undefined
+      lastWritten = undefined
+      adapter = key === undefined ? undefined : getAdapter()
+      if (key === undefined || adapter === undefined) return
+      const restored = adapter.read(key)
+      if (restored !== undefined) state.set(restored)
+      stopSubscription = adapter.subscribe?.(key, state.set)
+    },
+    {immediate: true}
+  )
+
+  watch(
+    state.get,
+    (value) => {
+      const {stateKey} = toValue(props)
+      if (stateKey === undefined || adapter === undefined) return
+      const serialized = JSON.stringify(value)
+      if (serialized === lastWritten) return
+      lastWritten = serialized
+      adapter.write(stateKey, value)
+    },
+    {deep: true}
+  )
+
+  onScopeDispose(() => {
+    stopSubscription?.()
+  })
+}
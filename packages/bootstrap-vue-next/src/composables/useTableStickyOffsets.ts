@@ -0,0 +1,86 @@
+import {useResizeObserver} from '@vueuse/core'
+import {type MaybeRefOrGetter, onMounted, ref, toValue, watch} from 'vue'
+import type {TableField} from '../types/TableTypes'
+import {getStickyColumnEdge} from '../utils/tableUtils'
+
+export const frozenRowClass = 'b-table-frozen-row'
+
+/**
+ * Measures the offsets of sticky columns and frozen rows. Every sticky column is offset by the widths of the
+ * sticky columns before it on the same edge, and every frozen row by the height of the sticky header and the
+ * frozen rows above it, so they stack rather than overlap
+ */
+export const useTableStickyOffsets = (
+  table: MaybeRefOrGetter<HTMLTableElement | null | undefined>,
+  fields: MaybeRefOrGetter<readonly TableField[]>,
+  options: MaybeRefOrGetter<{frozenRows: number; stickyHeader: boolean}>
+) => {
+  const columnOffsets = ref<Record<string, number>>({})
+  const rowOffsets = ref<number[]>([])
+
+  const isEqual = (a: object, b: object) => JSON.stringify(a) === JSON.stringify(b)
+
+  const updateColumnOffsets = (el: HTMLTableElement) => {
+    const resolvedFields = toValue(fields)
+    const offsets: Record<string, number> = {}
+    const hasStacked = (['start', 'end'] as const).some(
+      (edge) => resolvedFields.filter((field) => getStickyColumnEdge(field) === edge).length > 1
+    )
+    // A single sticky column per edge needs no offset
+    const row = hasStacked
+      ? Array.from(el.rows).find(
+          (tr) => tr.cells.length === resolvedFields.length && tr.cells[0].offsetWidth > 0
+        )
+      : undefined
+    if (row !== undefined) {
+      const widths = Array.from(row.cells).map((cell) => cell.offsetWidth)
+      let start = 0
+      resolvedFields.forEach((field, index) => {
+        if (getStickyColumnEdge(field) !== 'start') return
+        offsets[String(field.key)] = start
+        start += widths[index]
+      })
+      let end = 0
+      for (let index = resolvedFields.length - 1; index >= 0; index--) {
+        const field = resolvedFields[index]
+        if (getStickyColumnEdge(field) !== 'end') continue
+        offsets[String(field.key)] = end
+        end += widths[index]
+      }
+    }
+    if (!isEqual(offsets, columnOffsets.value)) columnOffsets.value = offsets
+  }
+
+  const updateRowOffsets = (el: HTMLTableElement) => {
+    const {frozenRows, stickyHeader} = toValue(options)
+    const offsets: number[] = []
+    if (frozenRows > 0) {
+      let top = stickyHeader ? (el.tHead?.offsetHeight ?? 0) : 0
+      Array.from(el.rows)
+        .filter((tr) => tr.classList.contains(frozenRowClass))
+        .forEach((tr) => {
+          offsets.push(top)
+          top += tr.offsetHeight
+        })
+    }
+    if (!isEqual(offsets, rowOffsets.value)) rowOffsets.value = offsets
+  }
+
+  const update = () => {
+    const el = toValue(table)
+    if (!el) return
+    updateColumnOffsets(el)
+    updateRowOffsets(el)
+  }
+
+  // Rows and cells that change size resize the table as well
+  useResizeObserver(() => toValue(table), update)
+  watch([() => toValue(fields), () => toValue(options)], update, {deep: true, flush: 'post'})
+  onMounted(update)
+
+  return {
+    columnOffsets,
+    rowOffsets,
+    update,
+  }
+}
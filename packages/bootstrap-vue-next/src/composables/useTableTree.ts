@@ -0,0 +1,176 @@
+import {computed, type MaybeRefOrGetter, ref, shallowRef, toValue} from 'vue'
+import type {MaybePromise} from '../types/MaybePromise'
+import {get} from '../utils/object'
+
+export type TableTreeRowMeta<Items> = {
+  level: number
+  setSize: number
+  posInSet: number
+  parent: Items | undefined
+  hasChildren: boolean
+  expanded: boolean
+}
+
+/**
+ * Tree rows for tables. Children are read from the `childrenField` of the items, or are loaded lazily with `loadChildren`.
+ * The tree is flattened into the rows that are visible, so the rest of the table can keep working on a plain array
+ */
+export const useTableTree = <Items>(
+  items: MaybeRefOrGetter<readonly Items[]>,
+  props: MaybeRefOrGetter<{
+    childrenField: string
+    loadChildren: ((item: Items) => MaybePromise<Items[] | undefined>) | undefined
+    primaryKey: string | undefined
+  }>
+) => {
+  const expandedKeys = ref(new Set<unknown>())
+  const loadingKeys = ref(new Set<unknown>())
+  const loadedChildren = shallowRef(new Map<unknown, readonly Items[]>())
+
+  /**
+   * Items are identified by their primary key when possible, so the state survives items being replaced
+   */
+  const getKey = (item: Items): unknown => {
+    const {primaryKey} = toValue(props)
+    return primaryKey ? (get(item, primaryKey) ?? item) : item
+  }
+
+  const getChildren = (item: Items): readonly Items[] | undefined => {
+    const children = get<unknown>(item, toValue(props).childrenField)
+    if (Array.isArray(children)) return children
+    return loadedChildren.value.get(getKey(item))
+  }
+
+  /**
+   * Items without a children array can be expanded when `loadChildren` is used.
+   * Set the children to an empty array (or `null`) to mark a leaf
+   */
+  const hasChildren = (item: Items) => {
+    const children = getChildren(item)
+    if (children !== undefined) return children.length > 0
+    return (
+      toValue(props).loadChildren !== undefined &&
+      get<unknown>(item, toValue(props).childrenField) === undefined
+    )
+  }
+
+  const isTree = computed(
+    () =>
+      toValue(props).loadChildren !== undefined ||
+      toValue(items).some((item) => Array.isArray(get<unknown>(item, toValue(props).childrenField)))
+  )
+
+  const isExpanded = (item: Items) => expandedKeys.value.has(getKey(item))
+  const isLoading = (item: Items) => loadingKeys.value.has(getKey(item))
+
+  const setExpanded = async (item: Items, expanded: boolean) => {
+    const key = getKey(item)
+    if (!expanded) {
+      expandedKeys.value.delete(key)
+      return
+    }
+    const {loadChildren} = toValue(props)
+    if (getChildren(item) === undefined && loadChildren !== undefined) {
+      if (loadingKeys.value.has(key)) return
+      loadingKeys.value.add(key)
+      try {
+        const children = await loadChildren(item)
+        const value = new Map(loadedChildren.value)
+        value.set(key, children ?? [])
+        loadedChildren.value = value
+      } finally {
+        loadingKeys.value.delete(key)
+      }
+    }
+    expandedKeys.value.add(key)
+  }
+
+  const parents = computed(() => {
+    const result = new Map<Items, Items>()
+    const visit = (list: readonly Items[]) => {
+      list.forEach((item) => {
+        const children = getChildren(item)
+        if (children === undefined) return
+        children.forEach((child) => {
+          result.set(child, item)
+        })
+        visit(children)
+      })
+    }
+    visit(toValue(items))
+    return result
+  })
+
+  const getAncestors = (item: Items): Items[] => {
+    const result: Items[] = []
+    let parent = parents.value.get(item)
+    while (parent !== undefined) {
+      result.push(parent)
+      parent = parents.value.get(parent)
+    }
+    return result
+  }
+
+  const getDescendants = (item: Items): Items[] =>
+    (getChildren(item) ?? []).flatMap((child) => [child, ...getDescendants(child)])
+
+  /**
+   * Flattens the tree into the visible rows. Filtering and sorting are applied to the siblings of every level.
+   * Items that don't match the filter are kept when one of their descendants does, and are shown expanded while filtering
+   */
+  const flatten = (options: {
+    matches: (item: Items) => boolean
+    filtering: boolean
+    sort: (items: Items[]) => Items[]
+  }) => {
+    const meta = new Map<Items, TableTreeRowMeta<Items>>()
+    const matchCache = new Map<Items, boolean>()
+    const isVisible = (item: Items): boolean => {
+      const cached = matchCache.get(item)
+      if (cached !== undefined) return cached
+      const result =
+        !options.filtering ||
+        options.matches(item) ||
+        (getChildren(item) ?? []).some((child) => isVisible(child))
+      matchCache.set(item, result)
+      return result
+    }
+
+    const visit = (list: readonly Items[], level: number, parent: Items | undefined): Items[] => {
+      const siblings = options.sort(list.filter((item) => isVisible(item)))
+      return siblings.flatMap((item, index) => {
+        const expanded =
+          isExpanded(item) ||
+          (options.filtering &&
+            !options.matches(item) &&
+            (getChildren(item) ?? []).some((child) => isVisible(child)))
+        meta.set(item, {
+          level,
+          setSize: siblings.length,
+          posInSet: index + 1,
+          parent,
+          hasChildren: hasChildren(item),
+          expanded,
+        })
+        const children = getChildren(item)
+        return expanded && children !== undefined
+          ? [item, ...visit(children, level + 1, item)]
+          : [item]
+      })
+    }
+
+    return {items: visit(toValue(items), 1, undefined), meta}
+  }
+
+  return {
+    isTree,
+    isExpanded,
+    isLoading,
+    setExpanded,
+    hasChildren,
+    getChildren,
+    getAncestors,
+    getDescendants,
+    flatten,
+  }
+}
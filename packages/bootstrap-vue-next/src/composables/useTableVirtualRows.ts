@@ -0,0 +1,178 @@
+import {useEventListener, useResizeObserver} from '@vueuse/core'
+import {
+  computed,
+  type MaybeRefOrGetter,
+  onMounted,
+  readonly,
+  ref,
+  shallowRef,
+  toRef,
+  toValue,
+  watch,
+} from 'vue'
+
+/**
+ * Attribute placed on the first `tr` of every rendered item, so the rendered rows can be measured.
+ * Any rows that follow it (such as row details) are considered to be part of the same item
+ */
+export const virtualRowIndexAttr = 'data-virtual-index'
+
+/**
+ * Windowing for table rows. Only the rows that are inside of the scroll container (plus overscan) are rendered,
+ * the remaining space is taken up by spacer rows. Row heights start out as the estimate and are refined by
+ * measuring the rows after they are rendered, so rows with details or wrapping content remain stable
+ */
+export const useTableVirtualRows = (
+  container: MaybeRefOrGetter<HTMLElement | null | undefined>,
+  body: MaybeRefOrGetter<HTMLElement | null | undefined>,
+  items: MaybeRefOrGetter<readonly unknown[]>,
+  props: MaybeRefOrGetter<{
+    enabled: boolean
+    rowHeight: number
+    overscan: number
+    /**
+     * The number of rows at the start that are always rendered, before the window, such as frozen rows
+     */
+    pinned: number
+  }>
+) => {
+  const resolvedProps = readonly(toRef(props))
+
+  const scrollTop = ref(0)
+  const viewportHeight = ref(0)
+  const bodyOffset = ref(0)
+  const measuredHeights = shallowRef(new Map<number, number>())
+  const count = () => toValue(items).length
+
+  const syncViewport = () => {
+    const el = toValue(container)
+    if (!el) return
+    scrollTop.value = el.scrollTop
+    viewportHeight.value = el.clientHeight
+    // The thead (and any other content above the body) scrolls with the container
+    bodyOffset.value = toValue(body)?.offsetTop ?? 0
+  }
+
+  useEventListener(() => toValue(container), 'scroll', syncViewport, {passive: true})
+  useResizeObserver(() => toValue(container), syncViewport)
+
+  /**
+   * offsets[i] is the distance from the top of the body to the top of the row at index i.
+   * The last element is the total height of all rows
+   */
+  const offsets = computed(() => {
+    const total = count()
+    const estimate = resolvedProps.value.rowHeight
+    const result = new Float64Array(total + 1)
+    for (let i = 0; i < total; i++) {
+      result[i + 1] = result[i] + (measuredHeights.value.get(i) || estimate)
+    }
+    return result
+  })
+
+  /**
+   * @returns the index of the row that contains the given offset
+   */
+  const findIndex = (offset: number) => {
+    let low = 0
+    let high = offsets.value.length - 2
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2)
+      if (offsets.value[middle] <= offset) {
+        low = middle
+      } else {
+        high = middle - 1
+      }
+    }
+    return Math.max(low, 0)
+  }
+
+  const range = computed(() => {
+    const total = count()
+    if (!resolvedProps.value.enabled) return {pinned: 0, start: 0, end: total}
+
+    const {overscan} = resolvedProps.value
+    const pinned = Math.min(Math.max(resolvedProps.value.pinned, 0), total)
+    const top = Math.max(0, scrollTop.value - bodyOffset.value)
+    const start = Math.max(pinned, findIndex(top) - overscan)
+    const end = Math.max(
+      start,
+      Math.min(total, findIndex(top + viewportHeight.value) + 1 + overscan)
+    )
+    return {pinned, start, end}
+  })
+
+  // The pinned rows are rendered above the spacer, so they are not part of it
+  const paddingTop = computed(
+    () => (offsets.value[range.value.start] ?? 0) - (offsets.value[range.value.pinned] ?? 0)
+  )
+  const paddingBottom = computed(
+    () => (offsets.value[offsets.value.length - 1] ?? 0) - (offsets.value[range.value.end] ?? 0)
+  )
+
+  const measure = () => {
+    const el = toValue(body)
+    if (!resolvedProps.value.enabled || !el) return
+
+    const rows = Array.from(el.children) as HTMLElement[]
+    let changed = false
+    const heights = new Map(measuredHeights.value)
+    let previous: {index: number; top: number} | undefined
+    rows.forEach((row) => {
+      const attr = row.getAttribute(virtualRowIndexAttr)
+      // Spacers and top/bottom rows end the previous item as well
+      const isBoundary = attr !== null || row.classList.contains('b-table-virtual-spacer')
+      if (!isBoundary) return
+      if (previous !== undefined) {
+        const height = row.offsetTop - previous.top
+        if (height > 0 && Math.abs((heights.get(previous.index) ?? 0) - height) > 0.5) {
+          heights.set(previous.index, height)
+          changed = true
+        }
+      }
+      previous = attr === null ? undefined : {index: Number(attr), top: row.offsetTop}
+    })
+    if (changed) measuredHeights.value = heights
+  }
+
+  watch(
+    [range, () => toValue(items)],
+    () => {
+      measure()
+    },
+    {flush: 'post'}
+  )
+  watch(
+    () => resolvedProps.value.enabled,
+    (enabled) => {
+      if (!enabled) measuredHeights.value = new Map()
+    }
+  )
+  // The heights are measured by index, so they belong to other rows once the items are sorted, filtered or paged
+  watch(
+    () => toValue(items),
+    () => {
+      measuredHeights.value = new Map()
+    }
+  )
+
+  onMounted(() => {
+    syncViewport()
+    measure()
+  })
+
+  const scrollToIndex = (index: number) => {
+    const el = toValue(container)
+    if (!el) return
+    const clamped = Math.min(Math.max(index, 0), count() - 1)
+    el.scrollTop = (offsets.value[clamped] ?? 0) + bodyOffset.value
+    syncViewport()
+  }
+
+  return {
+    range,
+    paddingTop,
+    paddingBottom,
+    scrollToIndex,
+  }
+}
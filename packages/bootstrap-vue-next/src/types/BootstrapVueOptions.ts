@@ -26,6 +26,7 @@ export const componentsWithExternalPath = {
   BButtonGroup: '/components/BButton',
   BButtonToolbar: '/components/BButton',
   BCloseButton: '/components/BButton',
+  BCalendar: '/components/BCalendar',
   BCard: '/components/BCard',
   BCardBody: '/components/BCard',
   BCardFooter: '/components/BCard',
@@ -51,6 +52,8 @@ export const componentsWithExternalPath = {
   BForm: '/components/BForm',
   BFormCheckbox: '/components/BFormCheckbox',
   BFormCheckboxGroup: '/components/BFormCheckbox',
+  BFormDatepicker: '/components/BFormDatepicker',
+  BFormTimepicker: '/components/BFormTimepicker',
   BFormDatalist: '/components/BForm',
   BFormFile: '/components/BFormFile',
   BFormFloatingLabel: '/components/BForm',
@@ -100,6 +103,7 @@ export const componentsWithExternalPath = {
   BSpinner: '/components/BSpinner',
   BTab: '/components/BTabs',
   BTabs: '/components/BTabs',
+  BTime: '/components/BTime',
   BToast: '/components/BToast',
   BToastOrchestrator: '/components/BToast',
   BTooltip: '/components/BTooltip',
@@ -135,6 +139,8 @@ export const directiveNames = Object.freeze(
 export const composablesWithExternalPath = {
   useBreadcrumb: '/composables/useBreadcrumb',
   useColorMode: '/composables/useColorMode',
+  useFormValidation: '/composables/useFormValidation',
+  useLeaveGuard: '/composables/useLeaveGuard',
   useModal: '/composables/useModal',
   useModalController: '/composables/useModalController',
   useScrollspy: '/composables/useScrollspy',
@@ -205,6 +211,8 @@ type UnmappedComponentProps<BFormSelectOption = any, BTableLite = any, BTable =
   BFormText: ComponentProps.BFormTextProps
   BFormCheckbox: ComponentProps.BFormCheckboxProps
   BFormCheckboxGroup: ComponentProps.BFormCheckboxGroupProps
+  BFormDatepicker: ComponentProps.BFormDatepickerProps
+  BFormTimepicker: ComponentProps.BFormTimepickerProps
   BFormDatalist: ComponentProps.BFormDatalistProps
   BFormFile: ComponentProps.BFormFileProps
   BFormInput: ComponentProps.BFormInputProps
@@ -241,6 +249,7 @@ type UnmappedComponentProps<BFormSelectOption = any, BTableLite = any, BTable =
   BProgress: ComponentProps.BProgressProps
   BTab: ComponentProps.BTabProps
   BTabs: ComponentProps.BTabsProps
+  BTime: ComponentProps.BTimeProps
   BToastOrchestrator: ComponentProps.BToastOrchestratorProps
   BCollapse: ComponentProps.BCollapseProps
   BContainer: ComponentProps.BContainerProps
@@ -256,6 +265,7 @@ type UnmappedComponentProps<BFormSelectOption = any, BTableLite = any, BTable =
   BButtonGroup: ComponentProps.BButtonGroupProps
   BButtonToolbar: ComponentProps.BButtonToolbarProps
   BCloseButton: ComponentProps.BCloseButtonProps
+  BCalendar: ComponentProps.BCalendarProps
   BCard: ComponentProps.BCardProps
   BCardBody: ComponentProps.BCardBodyProps
   BCardGroup: ComponentProps.BCardGroupProps
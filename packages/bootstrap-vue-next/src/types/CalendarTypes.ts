@@ -0,0 +1,18 @@
+/**
+ * A date as a `YYYY-MM-DD` string or a `Date` object
+ */
+export type CalendarDate = string | Date
+
+/**
+ * The start and the end of a date range, as `YYYY-MM-DD` strings. The end is `null` while a range is being selected
+ */
+export type CalendarRange = readonly [start: string | null, end: string | null]
+
+/**
+ * A single `YYYY-MM-DD` date, or a `CalendarRange` when the `range` prop is set
+ */
+export type CalendarValue = string | null | CalendarRange
+
+export type CalendarDateDisabledFn = (ymd: string, date: Date) => boolean
+
+export type CalendarWeekdayFormat = 'long' | 'short' | 'narrow'
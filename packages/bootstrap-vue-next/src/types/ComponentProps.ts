@@ -6,9 +6,10 @@ import type {
   RootBoundary,
   Strategy,
 } from '@floating-ui/vue'
-import type {ComponentPublicInstance, TransitionProps} from 'vue'
+import type {ComponentPublicInstance, TransitionGroupProps, TransitionProps} from 'vue'
 import type {RouteLocationRaw} from 'vue-router'
 import type {LinkTarget} from './LinkTarget'
+import type {MaybePromise} from './MaybePromise'
 import type {
   BgColorVariant,
   BorderColorVariant,
@@ -25,6 +26,14 @@ import type {Numberish, TeleporterProps, ValidationState} from './CommonTypes'
 import type {CommonInputProps} from './FormCommonInputProps'
 import type {RadioOptionRaw, RadioValue} from './RadioTypes'
 import type {SelectValue} from './SelectTypes'
+import type {FormTagsSuggestion, FormTagsSuggestionsFn} from './FormTagsTypes'
+import type {FormValidationRules} from './FormValidationTypes'
+import type {
+  CalendarDate,
+  CalendarDateDisabledFn,
+  CalendarValue,
+  CalendarWeekdayFormat,
+} from './CalendarTypes'
 import type {
   Breakpoint,
   ColBreakpointProps,
@@ -57,16 +66,20 @@ import type {LiteralUnion} from './LiteralUnion'
 import type {BreadcrumbItemRaw} from './BreadcrumbTypes'
 import type {TransitionMode} from './TransitionMode'
 import type {
+  BTablePersist,
   BTableProvider,
   BTableSortBy,
   NoProviderTypes,
+  TableColumnFilters,
   TableField,
   TableFieldRaw,
   TableRowType,
   TableStrictClassValue,
+  TableTreeSelectMode,
 } from './TableTypes'
 import type {PopoverPlacement} from './PopoverPlacement'
 import type {InputType} from './InputType'
+import type {InputMask} from './InputMask'
 
 export interface BLinkProps {
   active?: boolean
@@ -281,31 +294,47 @@ export interface BFormFileProps {
   ariaLabelledby?: string
   accept?: string | readonly string[]
   autofocus?: boolean
+  browseText?: string
   capture?: boolean | 'user' | 'environment'
   directory?: boolean
   disabled?: boolean
+  dropPlaceholder?: string
+  fileNameFormatter?: (file: Readonly<File>) => string
+  fileRemoveLabel?: string
   form?: string
   id?: string
+  invalidTypeText?: string
   label?: string
   labelClass?: ClassValue
+  maxFiles?: Numberish
+  maxFilesText?: string
+  maxSize?: Numberish
+  maxSizeText?: string
   modelValue?: readonly File[] | File | null
   multiple?: boolean
   name?: string
   noButton?: boolean
   noDrop?: boolean
   noTraverse?: boolean
+  placeholder?: string
   plain?: boolean
+  readErrorText?: string
   required?: boolean
   size?: Size
   state?: ValidationState
 }
 
 export interface BFormInputProps extends CommonInputProps {
+  locale?: string
+  mask?: InputMask
   max?: Numberish
   min?: Numberish
-  // noWheel: {type: Boolean, default: false}, TODO: not implemented yet
+  noWheel?: boolean
+  numberFormat?: Readonly<Intl.NumberFormatOptions>
+  numeric?: boolean
   step?: Numberish
   type?: InputType
+  wheel?: boolean
 }
 
 export interface BFormRadioProps {
@@ -416,6 +445,106 @@ export interface BFormSpinbuttonProps {
   wrap?: boolean
 }
 
+export interface BCalendarProps {
+  ariaControls?: string
+  block?: boolean
+  dateDisabledFn?: CalendarDateDisabledFn
+  disabled?: boolean
+  hideHeader?: boolean
+  id?: string
+  initialDate?: CalendarDate
+  labelCurrentMonth?: string
+  labelHelp?: string
+  labelNav?: string
+  labelNextMonth?: string
+  labelNextYear?: string
+  labelNoDateSelected?: string
+  labelPrevMonth?: string
+  labelPrevYear?: string
+  labelSelected?: string
+  locale?: string
+  max?: CalendarDate
+  min?: CalendarDate
+  modelValue?: CalendarValue
+  noHighlightToday?: boolean
+  range?: boolean
+  readonly?: boolean
+  selectedVariant?: ColorVariant
+  startWeekday?: Numberish
+  todayVariant?: ColorVariant | null
+  weekdayHeaderFormat?: CalendarWeekdayFormat
+}
+
+export interface BFormDatepickerProps
+  extends Omit<BCalendarProps, 'ariaControls' | 'hideHeader' | 'id' | 'modelValue'>,
+    TeleporterProps {
+  ariaInvalid?: AriaInvalid
+  closeButton?: boolean
+  dateFormatOptions?: Readonly<Intl.DateTimeFormatOptions>
+  form?: string
+  id?: string
+  labelCloseButton?: string
+  labelResetButton?: string
+  labelTodayButton?: string
+  menuClass?: ClassValue
+  modelValue?: CalendarValue
+  name?: string
+  noCloseOnSelect?: boolean
+  placeholder?: string
+  placement?: FloatingPlacement
+  required?: boolean
+  resetButton?: boolean
+  size?: Size
+  state?: ValidationState
+  todayButton?: boolean
+}
+
+export interface BTimeProps {
+  ariaLabelledby?: string
+  disabled?: boolean
+  hideHeader?: boolean
+  hour12?: boolean
+  id?: string
+  labelAm?: string
+  labelAmpm?: string
+  labelDecrement?: string
+  labelHours?: string
+  labelIncrement?: string
+  labelMinutes?: string
+  labelNoTimeSelected?: string
+  labelPm?: string
+  labelSeconds?: string
+  labelSelected?: string
+  locale?: string
+  minutesStep?: Numberish
+  modelValue?: string | null
+  readonly?: boolean
+  secondsStep?: Numberish
+  showSeconds?: boolean
+}
+
+export interface BFormTimepickerProps
+  extends Omit<BTimeProps, 'ariaLabelledby' | 'hideHeader' | 'id' | 'modelValue'>,
+    TeleporterProps {
+  ariaInvalid?: AriaInvalid
+  closeButton?: boolean
+  form?: string
+  id?: string
+  labelCloseButton?: string
+  labelNowButton?: string
+  labelResetButton?: string
+  menuClass?: ClassValue
+  modelValue?: string | null
+  name?: string
+  nowButton?: boolean
+  placeholder?: string
+  placement?: FloatingPlacement
+  required?: boolean
+  resetButton?: boolean
+  size?: Size
+  state?: ValidationState
+}
+
 export interface BFormTagProps {
   disabled?: boolean
   id?: string
@@ -450,9 +579,12 @@ export interface BFormTagsProps {
   placeholder?: string
   removeOnDelete?: boolean
   required?: boolean
+  restrictToSuggestions?: boolean
   separator?: string | readonly string[]
   size?: Size
   state?: ValidationState
+  suggestions?: readonly FormTagsSuggestion[] | FormTagsSuggestionsFn
+  suggestionsDebounce?: Numberish
   tagClass?: ClassValue
   tagPills?: boolean
   tagRemoveLabel?: string
@@ -511,7 +643,7 @@ export interface BNavProps {
   vertical?: boolean
 }
 
-export interface BNavFormProps extends BFormProps {
+export interface BNavFormProps extends Omit<BFormProps, 'busy' | 'leaveGuard'> {
   role?: string
   wrapperAttrs?: Readonly<AttrsValue>
   formClass?: ClassValue
@@ -1011,8 +1143,10 @@ export interface BImgProps extends RadiusElementExtendables {
 }
 
 export interface BFormProps {
+  busy?: boolean
   floating?: boolean
   id?: string
+  leaveGuard?: boolean
   novalidate?: boolean
   validated?: boolean
 }
@@ -1063,8 +1197,8 @@ export interface BTableLiteProps<Items> extends BTableSimpleProps {
   primaryKey?: string
   tbodyClass?: ClassValue
   tbodyTrAttrs?: ((item: Items | null, type: TableRowType) => AttrsValue) | AttrsValue
-  // tbodyTransitionHandlers
-  // tbodyTransitionProps
+  tbodyTransitionHandlers?: BTbodyProps['tbodyTransitionHandlers']
+  tbodyTransitionProps?: BTbodyProps['tbodyTransitionProps']
   tbodyTrClass?:
     | ((item: Items | null, type: TableRowType) => TableStrictClassValue)
     | TableStrictClassValue
@@ -1072,6 +1206,11 @@ export interface BTableLiteProps<Items> extends BTableSimpleProps {
   tfootTrClass?: ClassValue
   theadClass?: ClassValue
   theadTrClass?: ClassValue
+  virtual?: boolean
+  virtualOverscan?: Numberish
+  virtualRowHeight?: Numberish
+  reorderable?: boolean
+  frozenRows?: Numberish
 }
 
 export interface BTableProps<Items> extends Omit<BTableLiteProps<Items>, 'tableClass'> {
@@ -1092,24 +1231,43 @@ export interface BTableProps<Items> extends Omit<BTableLiteProps<Items>, 'tableC
   busyLoadingText?: string
   perPage?: Numberish
   currentPage?: Numberish
+  totalRows?: number
   filter?: string
   filterFunction?: (item: Readonly<Items>, filter: string | undefined) => boolean
   filterable?: readonly string[]
+  filters?: TableColumnFilters<Items>
+  filterRow?: boolean
+  childrenField?: string
+  loadChildren?: (item: Items) => MaybePromise<Items[] | undefined>
+  treeSelectMode?: TableTreeSelectMode
+  groupBy?: string | ((item: Items) => unknown)
+  visibleFields?: string[]
+  fieldOrder?: string[]
+  columnWidths?: Record<string, number>
+  reorderableColumns?: boolean
+  resizableColumns?: boolean
+  keyboardNav?: boolean
+  stateKey?: string
+  persist?: BTablePersist
+  labelSortAsc?: string
+  labelSortClear?: string
+  labelSortDesc?: string
+  labelExpandRow?: string
+  labelCollapseRow?: string
+  sortCompareLocale?: string | string[]
+  sortCompareOptions?: Intl.CollatorOptions
+  sortNullLast?: boolean
   // TODO
-  // apiUrl?: string
   // filterIgnoredFields?: any[]
   // filterIncludedFields?: any[]
-  // labelSortAsc?: string
-  // labelSortClear?: string
-  // labelSortDesc?: string
   // noFooterSorting?: boolean
   noLocalSorting?: boolean
   noSelectOnClick?: boolean
   // selectedVariant?: ColorVariant | null
   // showEmpty?: boolean
   // sortIconLeft?: boolean
-  // sortNullLast?: boolean
   selectedItems?: readonly Items[]
+  selectedKeys?: unknown[]
   noSortableIcon?: boolean
   emptyFilteredText?: string
   emptyText?: string
@@ -1132,11 +1290,13 @@ export interface BTdProps {
   colspan?: Numberish
   rowspan?: Numberish
   stackedHeading?: string
-  stickyColumn?: boolean
+  stickyColumn?: boolean | 'start' | 'end'
   variant?: ColorVariant | null
 }
 
 export interface BTbodyProps {
+  tbodyTransitionHandlers?: Readonly<Record<string, (el: Element, done: () => void) => void>>
+  tbodyTransitionProps?: Readonly<TransitionGroupProps>
   variant?: ColorVariant | null
 }
 
@@ -1144,7 +1304,7 @@ export interface BThProps {
   colspan?: Numberish
   rowspan?: Numberish
   stackedHeading?: string
-  stickyColumn?: boolean
+  stickyColumn?: boolean | 'start' | 'end'
   variant?: ColorVariant | null
 }
 
@@ -1386,6 +1546,7 @@ export interface BFormGroupProps
   labelFor?: string
   labelSize?: string
   labelVisuallyHidden?: boolean
+  rules?: FormValidationRules
   state?: ValidationState
   tooltip?: boolean
   validFeedback?: string
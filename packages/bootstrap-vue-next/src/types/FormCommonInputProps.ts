@@ -1,6 +1,7 @@
 import type {AriaInvalid} from './AriaInvalid'
 import type {Numberish, ValidationState} from './CommonTypes'
 import type {Size} from './Size'
+import type {FormValidationRules} from './FormValidationTypes'
 
 export interface FormDebounceOptions {
   debounce?: Numberish
@@ -23,6 +24,7 @@ export interface CommonInputProps extends FormDebounceOptions {
   plaintext?: boolean
   readonly?: boolean
   required?: boolean
+  rules?: FormValidationRules
   size?: Size
   state?: ValidationState
 }
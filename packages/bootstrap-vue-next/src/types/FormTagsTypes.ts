@@ -0,0 +1,12 @@
+import type {MaybePromise} from './MaybePromise'
+import type {SelectOption} from './SelectTypes'
+
+/**
+ * A suggested tag. The `text` of an option is displayed, and its `value` is added to the tags
+ */
+export type FormTagsSuggestion = string | SelectOption<string>
+
+/**
+ * Returns the suggestions for the text typed in the input, for example from a REST endpoint
+ */
+export type FormTagsSuggestionsFn = (query: string) => MaybePromise<readonly FormTagsSuggestion[]>
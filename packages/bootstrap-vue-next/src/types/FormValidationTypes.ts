@@ -0,0 +1,105 @@
+import type {MaybeRefOrGetter, Ref} from 'vue'
+import type {ValidationState} from './CommonTypes'
+import type {MaybePromise} from './MaybePromise'
+
+/**
+ * Returns `true` when the value is valid, or an error message or `false` when it isn't
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type FormValidationRuleFn = (value: any) => MaybePromise<boolean | string>
+
+/**
+ * The built-in rules. Empty values only fail `required`. `min` and `max` compare numbers, and the length of strings and arrays
+ */
+export interface FormValidationBuiltinRules {
+  email?: boolean
+  max?: number
+  /**
+   * Replaces the default message of the failed rules of this object
+   */
+  message?: string
+  min?: number
+  pattern?: RegExp | string
+  required?: boolean
+}
+
+/**
+ * A schema that implements the Standard Schema interface, such as a Zod, Valibot or ArkType schema
+ */
+export interface FormValidationSchema {
+  readonly '~standard': {
+    readonly validate: (
+      value: unknown
+    ) => MaybePromise<{readonly issues?: ReadonlyArray<{readonly message: string}>}>
+  }
+}
+
+export type FormValidationRule =
+  | FormValidationRuleFn
+  | FormValidationBuiltinRules
+  | FormValidationSchema
+
+export type FormValidationRules = FormValidationRule | readonly FormValidationRule[]
+
+/**
+ * A field registered with the closest `BForm` or `useFormValidation`
+ */
+export interface FormValidationField {
+  readonly id: Readonly<Ref<string>>
+  /**
+   * The name of the control, which keys its value in the values of the form
+   */
+  readonly name: Readonly<Ref<string | undefined>>
+  readonly value: Readonly<Ref<unknown>>
+  readonly hasRules: Readonly<Ref<boolean>>
+  readonly errors: Readonly<Ref<readonly string[]>>
+  readonly state: Readonly<Ref<ValidationState>>
+  readonly isDirty: Readonly<Ref<boolean>>
+  readonly isTouched: Readonly<Ref<boolean>>
+  validate: () => Promise<boolean>
+  reset: () => void
+  /**
+   * Makes the current value the initial value, such as after the form is saved
+   */
+  markPristine: () => void
+}
+
+/**
+ * The value and the validation of a form control, passed to its `BFormGroup`
+ */
+export interface FormGroupField {
+  modelValue: Ref<unknown>
+  state?: Readonly<Ref<ValidationState>>
+  errors?: Readonly<Ref<readonly string[]>>
+}
+
+/**
+ * The error messages of the invalid fields, by field id
+ */
+export type FormValidationErrors = Readonly<Record<string, readonly string[]>>
+
+/**
+ * The named values of the controls of a form
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type FormValues = Record<string, any>
+
+/**
+ * Handles the submission of a `BForm`. The form is busy until a returned promise settles
+ *
+ * It is declared as a method, which makes its parameters bivariant, so a handler can type the values as its own interface
+ */
+export type FormSubmitHandler = {
+  handler(event: Event, values: FormValues): unknown
+}['handler']
+
+export interface LeaveGuardOptions {
+  /**
+   * The message of the confirmation. Browsers show their own message when the page is closed or reloaded
+   */
+  message?: MaybeRefOrGetter<string>
+  /**
+   * Asks the user to confirm leaving, such as with a modal. Defaults to `window.confirm`
+   */
+  confirm?: (message: string) => MaybePromise<boolean>
+}
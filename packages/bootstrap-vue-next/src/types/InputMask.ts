@@ -0,0 +1,10 @@
+/**
+ * Returns the mask pattern for the current value of the input, such as a longer pattern for longer card numbers
+ */
+export type InputMaskFn = (value: string) => string
+
+/**
+ * A pattern of tokens: `#` a digit, `A` a letter, `N` a letter or a digit and `X` any character.
+ * Other characters are inserted as they are, and `\` inserts the next token character as it is
+ */
+export type InputMask = string | InputMaskFn
@@ -3,6 +3,8 @@ import type {ColorVariant} from './ColorTypes'
 import type {MaybePromise} from './MaybePromise'
 import type {LiteralUnion} from './LiteralUnion'
 import type {AttrsValue, ClassValue} from './AnyValuedAttributes'
+import type {SelectOptionRaw} from './SelectTypes'
+import type {Breakpoint} from './BreakpointProps'
 
 export type TableRowEvent<T> = [item: T, index: number, event: MouseEvent]
 
@@ -30,19 +32,178 @@ export type BTableSortBy<T = any> = {
   comparer?: BTableSortByComparerFunction<T>
 }
 
+export type TableColumnFilterPredicate<T = unknown> = (value: unknown, item: T) => boolean
+export type TableColumnFilterRangeBound = number | string | Date
+
+/**
+ * The filter of a single column. The shorthands are:
+ * - a string is a case insensitive `contains` match
+ * - an array is an `in` match
+ * - a number or boolean is an `equals` match
+ * - a function is called with the value of the cell and the item
+ *
+ * `undefined`, `null` and empty strings don't filter the column
+ */
+export type TableColumnFilter<T = unknown> =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | readonly unknown[]
+  | TableColumnFilterPredicate<T>
+  | Readonly<{operator: 'contains'; value: string; caseSensitive?: boolean}>
+  | Readonly<{operator: 'equals'; value: unknown}>
+  | Readonly<{
+      operator: 'range'
+      min?: TableColumnFilterRangeBound
+      max?: TableColumnFilterRangeBound
+    }>
+  | Readonly<{operator: 'in'; value: readonly unknown[]}>
+
+export type TableColumnFilters<T = unknown> = Partial<
+  Record<LiteralUnion<keyof T & string>, TableColumnFilter<T>>
+>
+
 export type BTableProviderContext<T = unknown> = {
   sortBy: BTableSortBy<T>[] | undefined
   filter: string | undefined
+  filters: TableColumnFilters<T> | undefined
   currentPage: number
   perPage: number
+  /**
+   * Aborted when the request becomes stale, because the sort, filter or page changed or the table was unmounted
+   */
+  signal: AbortSignal
+  /**
+   * Set when every item that matches the filter is selected. The provider should return all of those items,
+   * regardless of `currentPage` and `perPage`. They are selected, not displayed
+   */
+  selectAll: boolean
+  /**
+   * Set when the items are reloaded with the exposed `refresh()`, so cached results should not be used
+   */
+  refresh: boolean
 }
 
+/**
+ * `totalRows` is the number of rows that match the request across every page, used for pagination
+ */
+export type BTableProviderResult<T> = T[] | {items: T[]; totalRows?: number}
+
 export type BTableProvider<T> = (
   context: Readonly<BTableProviderContext<T>>
-) => MaybePromise<T[] | undefined>
+) => MaybePromise<BTableProviderResult<T> | undefined>
+
+export type BTableFetchProviderRequest = {
+  /**
+   * Appended to the `url` as query parameters. `null` and `undefined` values are left out
+   */
+  params?: Readonly<Record<string, string | number | boolean | null | undefined>>
+  /**
+   * Passed to `fetch`, such as the `method`, `headers` and `body` of a POST or GraphQL request
+   */
+  init?: RequestInit
+}
+
+export type BTableFetchProviderOptions<T> = {
+  url: string | URL
+  /**
+   * Turns the context into the request. Defaults to the `page`, `perPage`, `filter` and `sort` query parameters,
+   * with `sort` as `key:order` pairs joined by commas. Paging is left out when `selectAll` is set
+   */
+  mapRequest?: (context: Readonly<BTableProviderContext<T>>) => BTableFetchProviderRequest
+  /**
+   * Turns the parsed JSON body into the result. Defaults to reading arrays and `{items, total}` objects
+   */
+  mapResponse?: (
+    body: unknown,
+    context: Readonly<BTableProviderContext<T>>
+  ) => MaybePromise<BTableProviderResult<T>>
+  /**
+   * Makes the request. Defaults to the global `fetch`
+   */
+  fetch?: (url: string, init: RequestInit) => Promise<Response>
+  /**
+   * The delay in milliseconds before a request is made when the filter changed. Defaults to `300`
+   */
+  debounce?: number
+  /**
+   * The number of responses that are kept, `0` disables the cache. Defaults to `20`
+   */
+  cacheSize?: number
+}
+
+export type BTableFetchProvider<T> = BTableProvider<T> & {
+  /**
+   * Empties the cache, so the next request is made even when its response was cached
+   */
+  clearCache: () => void
+}
+
+/**
+ * The state of a table that is saved with `persist`. Only the properties that are present are restored
+ */
+export type BTableState<T = unknown> = {
+  sortBy?: BTableSortBy<T>[]
+  filter?: string
+  currentPage?: number
+  perPage?: number
+  visibleFields?: string[]
+  /**
+   * The `primaryKey` values of the selected items
+   */
+  selectedKeys?: unknown[]
+}
+
+export type BTableStateAdapter = {
+  read: (key: string) => BTableState | undefined
+  write: (key: string, state: BTableState) => void
+  /**
+   * Called when the saved state changes outside of the table, such as when navigating back to an earlier URL
+   * @returns a function that stops listening
+   */
+  subscribe?: (key: string, callback: (state: BTableState) => void) => () => void
+}
+
+export type BTablePersist = 'local' | 'session' | 'query' | BTableStateAdapter
 
 export type TableFieldFormatter<T> = (value: unknown, key: string, item: T) => string
 
+export type TableFieldSortType = 'date' | 'number' | 'string'
+
+export type TableFieldEditorType = 'text' | 'number' | 'select'
+export type TableFieldEditor =
+  | TableFieldEditorType
+  | Readonly<{
+      type: TableFieldEditorType
+      options?: readonly SelectOptionRaw[]
+      attrs?: AttrsValue
+    }>
+
+export type TableFieldAggregator<T> = (values: unknown[], items: T[]) => unknown
+export type TableFieldAggregate<T> =
+  | 'sum'
+  | 'avg'
+  | 'count'
+  | 'min'
+  | 'max'
+  | TableFieldAggregator<T>
+
+export type TableGroup<T> = {
+  /**
+   * The value returned by `groupBy` that the items of the group share
+   */
+  value: unknown
+  label: string
+  items: T[]
+  /**
+   * The aggregates of the fields that have `aggregate` set, keyed by field key
+   */
+  aggregates: Record<string, unknown>
+  expanded: boolean
+}
+
 export type TableRowType = 'row' | 'row-details' | 'row-top' | 'row-bottom' | 'table-busy'
 export type TableRowThead = 'top' | 'bottom'
 
@@ -59,6 +220,11 @@ export type TableField<T = any> = {
   sortable?: boolean
   sortDirection?: string
   sortByFormatted?: boolean | TableFieldFormatter<T>
+  /**
+   * Compares the values as dates, numbers or strings when sorting. Dates, numbers and booleans are compared by
+   * their value when not set, other values as strings
+   */
+  sortType?: TableFieldSortType
   filterByFormatted?: boolean | TableFieldFormatter<T>
   tdClass?:
     | TableStrictClassValue
@@ -71,7 +237,37 @@ export type TableField<T = any> = {
     | AttrsValue
     | ((value: unknown, key: string, item: T | null, type: TableRowThead) => AttrsValue)
   isRowHeader?: boolean
-  stickyColumn?: boolean
+  /**
+   * Pins the column to the leading (`true` or `'start'`) or trailing (`'end'`) edge of the table while it scrolls
+   * horizontally
+   */
+  stickyColumn?: boolean | 'start' | 'end'
+  filterable?: boolean
+  aggregate?: TableFieldAggregate<T>
+  editable?: boolean | ((item: T) => boolean)
+  editor?: TableFieldEditor
+  /**
+   * When `false` the field is always displayed, even when it is missing from `visibleFields`
+   */
+  hideable?: boolean
+  /**
+   * Overrides the `resizableColumns` prop of the table for this field
+   */
+  resizable?: boolean
+  /**
+   * The limits in pixels the column can be resized to
+   */
+  minWidth?: number
+  maxWidth?: number
+  /**
+   * Columns that don't fit in the table are collapsed into a details row, the highest `priority` first.
+   * Fields without a `priority` are not collapsed to fit
+   */
+  priority?: number
+  /**
+   * Collapses the column into a details row while the viewport is narrower than the breakpoint
+   */
+  hideBelow?: Breakpoint
 }
 
 export type TableFieldRaw<T = unknown> = T extends object
@@ -85,3 +281,43 @@ export const isTableFieldRaw = <T>(value: unknown): value is TableFieldRaw<T> =>
   typeof value === 'string' || isTableField(value)
 
 export type NoProviderTypes = 'paging' | 'sorting' | 'filtering'
+
+/**
+ * - `independent` rows are selected on their own
+ * - `descendants` selecting a row also selects its descendants
+ * - `cascade` like `descendants`, and a parent is selected once all of its children are selected
+ */
+export type TableTreeSelectMode = 'independent' | 'descendants' | 'cascade'
+
+/**
+ * - `page` the rows that are currently displayed
+ * - `filtered` every row that matches the filter, ignoring paging
+ */
+export type TableSelectAllScope = 'page' | 'filtered'
+
+export type TableExportFormat = 'csv' | 'tsv' | 'json'
+/**
+ * - `page` the rows that are currently displayed
+ * - `filtered` every row that matches the filter, in the sorted order, ignoring paging
+ * - `all` every row, ignoring filtering and paging
+ *
+ * With an items provider only the rows it returned are known, so `filtered` and `all` don't reach past the current page
+ */
+export type TableExportScope = 'page' | 'filtered' | 'all'
+export type TableExportOutput = 'string' | 'blob'
+
+export type TableExportOptions<T = unknown> = {
+  format: TableExportFormat
+  scope?: TableExportScope
+  /**
+   * The fields to export. Defaults to the fields of the table
+   */
+  fields?: readonly TableFieldRaw<T>[]
+  output?: TableExportOutput
+}
+
+export type TableExportResult<O extends Pick<TableExportOptions, 'output'>> = O extends {
+  output: 'blob'
+}
+  ? Blob
+  : string
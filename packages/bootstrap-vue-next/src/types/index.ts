@@ -15,16 +15,40 @@ export type {
 export type {Animation} from './Animation'
 export type {AriaInvalid} from './AriaInvalid'
 export type {
+  BTableFetchProvider,
+  BTableFetchProviderOptions,
+  BTableFetchProviderRequest,
   BTableProvider,
   BTableProviderContext,
+  BTableProviderResult,
+  BTablePersist,
   BTableSortBy,
+  BTableState,
+  BTableStateAdapter,
+  TableColumnFilter,
+  TableColumnFilterPredicate,
+  TableColumnFilterRangeBound,
+  TableColumnFilters,
+  TableExportFormat,
+  TableExportOptions,
+  TableExportOutput,
+  TableExportResult,
+  TableExportScope,
   TableField,
+  TableFieldAggregate,
+  TableFieldAggregator,
+  TableFieldEditor,
+  TableFieldEditorType,
   TableFieldFormatter,
   TableFieldRaw,
+  TableFieldSortType,
+  TableGroup,
   TableItem,
   TableRowThead,
   TableRowType,
+  TableSelectAllScope,
   TableStrictClassValue,
+  TableTreeSelectMode,
 } from './TableTypes'
 export type {
   BaseButtonVariant,
@@ -40,7 +64,28 @@ export type {BootstrapVueOptions, BvnComponentProps, showHide} from './Bootstrap
 export type {BreadcrumbItem, BreadcrumbItemRaw} from './BreadcrumbTypes'
 export type * from './BreakpointProps'
 export type {ButtonType} from './ButtonType'
+export type {
+  CalendarDate,
+  CalendarDateDisabledFn,
+  CalendarRange,
+  CalendarValue,
+  CalendarWeekdayFormat,
+} from './CalendarTypes'
 export type {CheckboxOption, CheckboxOptionRaw, CheckboxValue} from './CheckboxTypes'
+export type {FormTagsSuggestion, FormTagsSuggestionsFn} from './FormTagsTypes'
+export type {
+  FormGroupField,
+  FormSubmitHandler,
+  FormValidationBuiltinRules,
+  FormValidationErrors,
+  FormValidationField,
+  FormValidationRule,
+  FormValidationRuleFn,
+  FormValidationRules,
+  FormValidationSchema,
+  FormValues,
+  LeaveGuardOptions,
+} from './FormValidationTypes'
 export type {
   ComplexSelectOption,
   ComplexSelectOptionRaw,
@@ -48,6 +93,7 @@ export type {
   SelectOption,
   SelectOptionRaw,
 } from './SelectTypes'
+export type {InputMask, InputMaskFn} from './InputMask'
 export type {InputType} from './InputType'
 export type {LinkTarget} from './LinkTarget'
 export type {LinkOpacity, UnderlineOffset, UnderlineOpacity} from './LinkDecorators'
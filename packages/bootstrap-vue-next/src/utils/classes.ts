@@ -114,3 +114,37 @@ export class BvCarouselEvent extends BvEvent {
     }
   }
 }
+
+export class BvCellEditEvent<T = unknown> extends BvEvent {
+  readonly item: T
+  readonly key: string
+  readonly index: number
+  readonly oldValue: unknown
+  readonly newValue: unknown
+
+  constructor(
+    eventType: string,
+    eventInit: Partial<Omit<BvEvent, BvEventConstructorOmittables>> & {
+      item: T
+      key: string
+      index: number
+      oldValue: unknown
+      newValue: unknown
+    }
+  ) {
+    super(eventType, eventInit)
+    Object.assign(this, BvEvent.Defaults, eventInit, {eventType})
+    const {item, key, index, oldValue, newValue} = eventInit
+    this.item = item
+    this.key = key
+    this.index = index
+    this.oldValue = oldValue
+    this.newValue = newValue
+  }
+
+  static get Defaults() {
+    return {
+      ...super.Defaults,
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import type {
+  BTableFetchProvider,
+  BTableFetchProviderOptions,
+  BTableFetchProviderRequest,
+  BTableProviderContext,
+  BTableProviderResult,
+} from '../types/TableTypes'
+
+/**
+ * The column filters as JSON. Predicates can't be sent, and empty filters don't filter, so both are left out
+ */
+const serializeFilters = <T>(filters: BTableProviderContext<T>['filters']) => {
+  const entries = Object.entries(filters ?? {}).filter(
+    ([, value]) =>
+      value !== undefined && value !== null && value !== '' && typeof value !== 'function'
+  )
+  return entries.length === 0 ? undefined : JSON.stringify(Object.fromEntries(entries))
+}
+
+const defaultMapRequest = <T>(
+  context: Readonly<BTableProviderContext<T>>
+): BTableFetchProviderRequest => ({
+  params: {
+    page: context.selectAll ? undefined : context.currentPage,
+    perPage: context.selectAll || context.perPage === 0 ? undefined : context.perPage,
+    filter: context.filter || undefined,
+    filters: serializeFilters(context.filters),
+    sort:
+      context.sortBy
+        ?.filter((el) => el.order !== undefined)
+        .map((el) => `${el.key}:${el.order}`)
+        .join(',') || undefined,
+  },
+})
+
+const defaultMapResponse = <T>(body: unknown): BTableProviderResult<T> => {
+  if (Array.isArray(body)) return body
+  const {items, total} = (body ?? {}) as {items?: T[]; total?: number}
+  return {items: items ?? [], totalRows: total}
+}
+
+const getUrl = (url: string | URL, params: BTableFetchProviderRequest['params']) => {
+  const query = new URLSearchParams()
+  Object.entries(params ?? {}).forEach(([key, value]) => {
+    if (value !== null && value !== undefined) query.append(key, String(value))
+  })
+  const search = query.toString()
+  if (search === '') return String(url)
+  return `${url}${String(url).includes('?') ? '&' : '?'}${search}`
+}
+
+const getFilterKey = <T>(context: Readonly<BTableProviderContext<T>>) =>
+  JSON.stringify([context.filter ?? '', context.filters ?? {}])
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timeout)
+      reject(signal.reason)
+    }
+    signal.addEventListener('abort', onAbort, {once: true})
+  })
+
+/**
+ * Creates a `provider` for `BTable` that fetches the items from a REST or GraphQL endpoint.
+ * Requests that follow a change of the filter are debounced, and the latest responses are cached by request,
+ * so paging back and forth doesn't fetch the same page again. A refresh of the table skips the cache
+ */
+export const createFetchProvider = <T>({
+  url,
+  mapRequest = defaultMapRequest,
+  mapResponse = defaultMapResponse,
+  fetch: fetchFn,
+  debounce = 300,
+  cacheSize = 20,
+}: Readonly<BTableFetchProviderOptions<T>>): BTableFetchProvider<T> => {
+  // Insertion ordered, so the first entry is the least recently used
+  const cache = new Map<string, BTableProviderResult<T>>()
+  let lastFilterKey: string | undefined
+
+  const provider = async (
+    context: Readonly<BTableProviderContext<T>>
+  ): Promise<BTableProviderResult<T>> => {
+    const {params, init} = mapRequest(context)
+    const requestUrl = getUrl(url, params)
+    const cacheKey = JSON.stringify([init?.method ?? 'GET', requestUrl, init?.body ?? null])
+
+    const cached = context.refresh ? undefined : cache.get(cacheKey)
+    if (cached !== undefined) {
+      cache.delete(cacheKey)
+      cache.set(cacheKey, cached)
+      return cached
+    }
+
+    if (!context.selectAll) {
+      const filterKey = getFilterKey(context)
+      // The key is only updated once the wait is over, so a request that is aborted while waiting
+      // doesn't stop the next request for the same filter from being debounced
+      if (lastFilterKey !== undefined && lastFilterKey !== filterKey && debounce > 0) {
+        await wait(debounce, context.signal)
+      }
+      // eslint-disable-next-line require-atomic-updates
+      lastFilterKey = filterKey
+    }
+
+    const response = await (fetchFn ?? globalThis.fetch)(requestUrl, {
+      ...init,
+      signal: context.signal,
+    })
+    if (!response.ok) {
+      throw new Error(`Request to "${requestUrl}" failed with status ${response.status}`)
+    }
+    const result = await mapResponse(await response.json(), context)
+
+    if (cacheSize > 0) {
+      cache.set(cacheKey, result)
+      if (cache.size > cacheSize) cache.delete(cache.keys().next().value as string)
+    }
+    return result
+  }
+
+  return Object.assign(provider, {
+    clearCache: () => {
+      cache.clear()
+    },
+  })
+}
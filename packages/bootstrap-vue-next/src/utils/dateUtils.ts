@@ -0,0 +1,83 @@
+import type {CalendarDate} from '../types/CalendarTypes'
+
+const RX_DATE = /^(\d{4})-(\d{2})-(\d{2})$/
+
+/**
+ * Creates a date at local midnight. Years below 100 are not mapped to the 1900s, unlike the `Date` constructor
+ */
+export const createDate = (year: number, month: number, day: number) => {
+  const date = new Date(year, month, day)
+  date.setFullYear(year, month, day)
+  date.setHours(0, 0, 0, 0)
+  return date
+}
+
+/**
+ * Parses a `YYYY-MM-DD` string or a `Date` into a date at local midnight, or `null` when it isn't a valid date
+ */
+export const parseYMD = (value: Readonly<CalendarDate> | null | undefined): Date | null => {
+  if (value === null || value === undefined || value === '') return null
+  if (typeof value !== 'string') {
+    return Number.isNaN(value.getTime())
+      ? null
+      : createDate(value.getFullYear(), value.getMonth(), value.getDate())
+  }
+  const match = RX_DATE.exec(value.trim())
+  if (match === null) return null
+  const [year, month, day] = match.slice(1).map(Number)
+  const date = createDate(year, month - 1, day)
+  // Rejects dates that overflow into the next month, such as 2023-02-30
+  return date.getMonth() === month - 1 ? date : null
+}
+
+export const formatYMD = (date: Readonly<Date>) =>
+  [
+    String(date.getFullYear()).padStart(4, '0'),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-')
+
+export const addDays = (date: Readonly<Date>, days: number) =>
+  createDate(date.getFullYear(), date.getMonth(), date.getDate() + days)
+
+/**
+ * Adds months to a date, clamping the day to the length of the resulting month, so Jan 31 + 1 month is Feb 28/29
+ */
+export const addMonths = (date: Readonly<Date>, months: number) => {
+  const first = createDate(date.getFullYear(), date.getMonth() + months, 1)
+  const daysInMonth = createDate(first.getFullYear(), first.getMonth() + 1, 0).getDate()
+  return createDate(first.getFullYear(), first.getMonth(), Math.min(date.getDate(), daysInMonth))
+}
+
+export const startOfMonth = (date: Readonly<Date>) =>
+  createDate(date.getFullYear(), date.getMonth(), 1)
+
+export const endOfMonth = (date: Readonly<Date>) =>
+  createDate(date.getFullYear(), date.getMonth() + 1, 0)
+
+export const clampDate = (
+  date: Readonly<Date>,
+  min: Readonly<Date> | null,
+  max: Readonly<Date> | null
+) => (min !== null && date < min ? min : max !== null && date > max ? max : date) as Date
+
+const RX_TIME = /^([01]?\d|2[0-3]):([0-5]\d)(?::([0-5]\d))?$/
+
+/**
+ * Parses a `HH:mm:ss` or `HH:mm` string, or returns `null` when it isn't a valid time
+ */
+export const parseHMS = (value: string | null | undefined) => {
+  const match = RX_TIME.exec(value?.trim() ?? '')
+  if (match === null) return null
+  const [hours, minutes, seconds] = match.slice(1).map((el) => Number(el ?? 0))
+  return {hours, minutes, seconds}
+}
+
+export const formatHMS = (hours: number, minutes: number, seconds: number) =>
+  [hours, minutes, seconds].map((el) => String(el).padStart(2, '0')).join(':')
+
+/**
+ * Whether the locale displays hours on a 12 hour clock with an AM/PM period
+ */
+export const isHour12Locale = (locale: string) =>
+  new Intl.DateTimeFormat(locale, {hour: 'numeric'}).resolvedOptions().hour12 === true
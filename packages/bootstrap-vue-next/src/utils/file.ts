@@ -0,0 +1,84 @@
+/**
+ * Whether the file matches the `accept` attribute: a list of extensions, such as `.pdf`,
+ * MIME types, such as `image/png`, or wildcard MIME types, such as `image/*`
+ */
+export const isFileAccepted = (file: Readonly<File>, accept: string) => {
+  const types = accept
+    .split(',')
+    .map((el) => el.trim().toLowerCase())
+    .filter((el) => el !== '')
+  if (types.length === 0) return true
+  const name = file.name.toLowerCase()
+  const type = file.type.toLowerCase()
+  return types.some((el) =>
+    el.startsWith('.')
+      ? name.endsWith(el)
+      : el.endsWith('/*')
+        ? type.startsWith(el.slice(0, -1))
+        : type === el
+  )
+}
+
+const FILE_SIZE_UNITS = ['byte', 'kilobyte', 'megabyte', 'gigabyte', 'terabyte'] as const
+
+/**
+ * Formats a number of bytes with the largest unit that keeps it above 1, such as `1.5 MB`
+ */
+export const formatFileSize = (bytes: number, locale?: string) => {
+  const exponent = Math.min(
+    bytes > 0 ? Math.floor(Math.log(bytes) / Math.log(1000)) : 0,
+    FILE_SIZE_UNITS.length - 1
+  )
+  return new Intl.NumberFormat(locale, {
+    style: 'unit',
+    unit: FILE_SIZE_UNITS[exponent],
+    unitDisplay: 'short',
+    maximumFractionDigits: exponent === 0 ? 0 : 1,
+  }).format(bytes / 1000 ** exponent)
+}
+
+const readEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+
+const getEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    )
+    // The files of a dropped directory have no relative path, unlike the files of a selected directory
+    if (!file.webkitRelativePath) {
+      Object.defineProperty(file, 'webkitRelativePath', {value: entry.fullPath.replace(/^\//, '')})
+    }
+    return [file]
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader()
+  const entries: FileSystemEntry[] = []
+  // The entries are read in batches, until an empty batch
+  for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+    entries.push(...batch)
+  }
+  return (await Promise.all(entries.map(getEntryFiles))).flat()
+}
+
+/**
+ * Gets the files of a drop. The files of dropped directories are read recursively when `traverse` is set,
+ * with their path in `webkitRelativePath`, otherwise dropped directories are skipped
+ */
+export const getDroppedFiles = async (
+  dataTransfer: Readonly<DataTransfer>,
+  traverse: boolean
+): Promise<File[]> => {
+  const items = Array.from(dataTransfer.items ?? []).filter((item) => item.kind === 'file')
+  // Without items, directories can't be told apart from files
+  if (items.length === 0) return Array.from(dataTransfer.files ?? [])
+  // The entries must be read before the drop event ends
+  const entries = items.map((item) => item.webkitGetAsEntry?.() ?? null)
+  const files = await Promise.all(
+    items.map((item, index) => {
+      const entry = entries[index]
+      if (entry?.isDirectory !== true) return [item.getAsFile()]
+      return traverse ? getEntryFiles(entry) : []
+    })
+  )
+  return files.flat().filter((file): file is File => file !== null)
+}
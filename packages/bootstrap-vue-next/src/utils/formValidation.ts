@@ -0,0 +1,82 @@
+import type {
+  FormValidationBuiltinRules,
+  FormValidationRule,
+  FormValidationRules,
+  FormValidationSchema,
+} from '../types/FormValidationTypes'
+
+// A pragmatic check, the server should have the final word on email addresses
+const RX_EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const isSchema = (rule: FormValidationRule): rule is FormValidationSchema =>
+  typeof rule === 'object' && '~standard' in rule
+
+const isEmpty = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0)
+
+const getSize = (value: unknown) =>
+  typeof value === 'string' || Array.isArray(value) ? value.length : Number(value)
+
+const validateBuiltinRules = (rules: Readonly<FormValidationBuiltinRules>, value: unknown) => {
+  const errors: string[] = []
+  const fail = (message: string) => errors.push(rules.message ?? message)
+  if (isEmpty(value)) {
+    if (rules.required) fail('This field is required')
+    return errors
+  }
+  const unit = typeof value === 'string' ? ' characters' : Array.isArray(value) ? ' items' : ''
+  if (rules.min !== undefined && getSize(value) < rules.min) {
+    fail(`Must be at least ${rules.min}${unit}`)
+  }
+  if (rules.max !== undefined && getSize(value) > rules.max) {
+    fail(`Must be at most ${rules.max}${unit}`)
+  }
+  if (rules.pattern !== undefined && !new RegExp(rules.pattern).test(String(value))) {
+    fail('The value has an invalid format')
+  }
+  if (rules.email && !RX_EMAIL.test(String(value))) {
+    fail('Must be a valid email address')
+  }
+  return errors
+}
+
+const validateRule = async (
+  rule: Readonly<FormValidationRule>,
+  value: unknown
+): Promise<string[]> => {
+  try {
+    if (typeof rule === 'function') {
+      const result = await rule(value)
+      return result === true ? [] : [typeof result === 'string' ? result : 'The value is invalid']
+    }
+    if (isSchema(rule)) {
+      const result = await rule['~standard'].validate(value)
+      return result.issues?.map((issue) => issue.message) ?? []
+    }
+    return validateBuiltinRules(rule, value)
+  } catch (error) {
+    // A rule that throws, such as a failed request, marks the value invalid instead of rejecting
+    return [
+      error instanceof Error && error.message !== ''
+        ? error.message
+        : 'The value could not be validated',
+    ]
+  }
+}
+
+export const normalizeRules = (rules: Readonly<FormValidationRules> | undefined) =>
+  rules === undefined ? [] : Array.isArray(rules) ? rules : [rules as FormValidationRule]
+
+/**
+ * Runs all the rules against the value and returns the error messages, in the order of the rules
+ */
+export const validateRules = async (
+  rules: Readonly<FormValidationRules> | undefined,
+  value: unknown
+): Promise<string[]> => {
+  const results = await Promise.all(normalizeRules(rules).map((rule) => validateRule(rule, value)))
+  return results.flat()
+}
@@ -26,6 +26,7 @@ import type {
   TooltipOrchestratorShowParam,
 } from '../types/ComponentOrchestratorTypes'
 import type {BvnComponentProps} from '../types/BootstrapVueOptions'
+import type {FormGroupField, FormValidationField} from '../types/FormValidationTypes'
 import {withBvnPrefix} from './withBvnPrefix'
 
 const createBvnInjectionKey = (name: string) => withBvnPrefix(name) as unknown as symbol // Type cast to symbol, these should be static
@@ -225,7 +226,18 @@ export const popoverPluginKey: InjectionKey<{
 }> = createBvnPluginInjectionKey('popover')
 
 export const formGroupPluginKey: InjectionKey<
-  (id: Ref<string>) => {
+  (
+    id: Ref<string>,
+    field?: FormGroupField
+  ) => {
     state: Readonly<Ref<ValidationState | undefined>>
   }
 > = createBvnInjectionKey('formGroupPlugin')
+
+export const formValidationPluginKey: InjectionKey<{
+  register: (field: FormValidationField) => () => void
+}> = createBvnInjectionKey('formValidation')
+
+export const formInjectionKey: InjectionKey<{
+  busy: Readonly<Ref<boolean>>
+}> = createBvnInjectionKey('form')
@@ -0,0 +1,58 @@
+const MASK_TOKENS: Readonly<Record<string, RegExp>> = {
+  '#': /\d/,
+  'A': /[a-z]/i,
+  'N': /[a-z\d]/i,
+  'X': /./,
+}
+
+interface MaskPart {
+  literal: boolean
+  char: string
+}
+
+const parsePattern = (pattern: string) => {
+  const parts: MaskPart[] = []
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '\\' && i < pattern.length - 1) {
+      parts.push({literal: true, char: pattern[++i]})
+    } else {
+      parts.push({literal: !(char in MASK_TOKENS), char})
+    }
+  }
+  return parts
+}
+
+/**
+ * Fits the characters of the value into the pattern. Characters that don't fit are skipped,
+ * and the literals of the pattern are only inserted before a character that fits,
+ * so deleting the last character also deletes the literals before it
+ *
+ * `positions` holds the index in `masked` after each of the characters of `unmasked`
+ */
+export const applyMask = (value: string, pattern: string) => {
+  let masked = ''
+  let unmasked = ''
+  const positions: number[] = []
+  const parts = parsePattern(pattern)
+  let index = 0
+  let i = 0
+  while (i < parts.length && index < value.length) {
+    let pending = ''
+    while (i < parts.length && parts[i].literal) pending += parts[i++].char
+    // The literals of a value that is already masked are consumed, as long as the value follows them
+    // from the start, so typing a character that equals a literal, such as `1` in `+1 (###)`, keeps it
+    let matched = 0
+    while (matched < pending.length && value[index + matched] === pending[matched]) matched++
+    index += matched
+    if (i >= parts.length) break
+    const token = MASK_TOKENS[parts[i++].char]
+    while (index < value.length && !token.test(value[index])) index++
+    if (index >= value.length) break
+    masked += pending + value[index]
+    unmasked += value[index]
+    positions.push(masked.length)
+    index++
+  }
+  return {masked, unmasked, positions}
+}
@@ -0,0 +1,47 @@
+interface NumberSymbols {
+  decimal: string
+  minus: string
+  digits: Map<string, string>
+}
+
+// The symbols are read for every typed character, so they are only formatted once per locale
+const numberSymbolsCache = new Map<string | undefined, NumberSymbols>()
+
+/**
+ * The decimal separator, the minus sign and the digits of the numbering system of the locale
+ */
+const getNumberSymbols = (locale: string | undefined) => {
+  const cached = numberSymbolsCache.get(locale)
+  if (cached !== undefined) return cached
+  const parts = new Intl.NumberFormat(locale).formatToParts(-1.1)
+  const digits = new Intl.NumberFormat(locale, {useGrouping: false}).format(9876543210)
+  const symbols: NumberSymbols = {
+    decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+    minus: parts.find((part) => part.type === 'minusSign')?.value ?? '-',
+    // Maps the digits of the locale, such as Arabic-Indic digits, to their value
+    digits: new Map(Array.from(digits, (digit, index) => [digit, String(9 - index)])),
+  }
+  numberSymbolsCache.set(locale, symbols)
+  return symbols
+}
+
+/**
+ * Parses a number written in the format of the locale, such as `1.234,56` in German.
+ * Group separators, currency symbols and percent signs are ignored, so percents are parsed as they are written.
+ * A minus sign only makes the number negative before its first digit.
+ * Returns `null` when the value has no digits
+ */
+export const parseLocaleNumber = (value: string, locale: string | undefined): number | null => {
+  const {decimal, minus, digits} = getNumberSymbols(locale)
+  let normalized = ''
+  let negative = false
+  for (const char of value) {
+    if (/\d/.test(char)) normalized += char
+    else if (digits.has(char)) normalized += digits.get(char)
+    else if (char === decimal && !normalized.includes('.')) normalized += '.'
+    else if ((char === minus || char === '-') && normalized === '') negative = true
+  }
+  if (!/\d/.test(normalized)) return null
+  const number = Number(normalized)
+  return negative ? -number : number
+}
@@ -0,0 +1,72 @@
+import type {TableExportFormat, TableField} from '../types/TableTypes'
+import {formatItem} from './formatItem'
+
+const delimiters = {
+  csv: ',',
+  tsv: '\t',
+} as const
+
+const mimeTypes: Record<TableExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  tsv: 'text/tab-separated-values;charset=utf-8',
+  json: 'application/json;charset=utf-8',
+}
+
+const stringifyValue = (value: unknown): string =>
+  value === null || value === undefined
+    ? ''
+    : value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value)
+
+/**
+ * Quotes a value when it contains the delimiter, a quote, a line break or leading/trailing whitespace.
+ * Quotes inside of the value are escaped by doubling them (RFC 4180)
+ */
+const quoteValue = (value: string, delimiter: string): string =>
+  value.includes(delimiter) || /["\r\n]/.test(value) || value.trim() !== value
+    ? `"${value.replace(/"/g, '""')}"`
+    : value
+
+/**
+ * Serializes table items into CSV, TSV or JSON. Values are passed through the field's `formatter`,
+ * delimited formats use the field's `label` for the header row and JSON uses the field's `key`.
+ * Meta keys (those starting with `_`, such as `_rowVariant`) are never exported
+ */
+export const serializeTableItems = <T>(
+  items: readonly T[],
+  fields: readonly TableField<T>[],
+  format: TableExportFormat
+): string => {
+  const exportedFields = fields.filter((field) => !String(field.key).startsWith('_'))
+  const getValue = (item: T, field: TableField<T>) =>
+    formatItem(item, String(field.key), field.formatter)
+
+  if (format === 'json') {
+    return JSON.stringify(
+      items.map((item) =>
+        exportedFields.reduce(
+          (acc, field) => {
+            acc[String(field.key)] = getValue(item, field) ?? null
+            return acc
+          },
+          {} as Record<string, unknown>
+        )
+      )
+    )
+  }
+
+  const delimiter = delimiters[format]
+  const toLine = (values: readonly unknown[]) =>
+    values.map((value) => quoteValue(stringifyValue(value), delimiter)).join(delimiter)
+
+  return [
+    toLine(exportedFields.map((field) => field.label ?? String(field.key))),
+    ...items.map((item) => toLine(exportedFields.map((field) => getValue(item, field)))),
+  ].join('\r\n')
+}
+
+export const toTableExportBlob = (data: string, format: TableExportFormat): Blob =>
+  new Blob([data], {type: mimeTypes[format]})
@@ -1,5 +1,12 @@
 import {titleCase} from './stringUtils'
-import type {TableFieldRaw} from '../types/TableTypes'
+import type {
+  TableColumnFilter,
+  TableColumnFilterRangeBound,
+  TableField,
+  TableFieldAggregate,
+  TableFieldRaw,
+  TableFieldSortType,
+} from '../types/TableTypes'
 import type {Breakpoint, BTableLiteProps, BTableSimpleProps} from '../types'
 
 export const getTableFieldHeadLabel = (field: Readonly<TableFieldRaw<unknown>>) =>
@@ -54,14 +61,170 @@ export const btableLiteProps = Object.freeze(
     tbodyClass: 0,
     tbodyTrAttrs: 0,
     tbodyTrClass: 0,
+    tbodyTransitionHandlers: 0,
+    tbodyTransitionProps: 0,
     tfootClass: 0,
     tfootTrClass: 0,
     theadClass: 0,
     theadTrClass: 0,
+    virtual: 0,
+    virtualOverscan: 0,
+    virtualRowHeight: 0,
+    reorderable: 0,
+    frozenRows: 0,
   } satisfies Record<keyof Omit<BTableLiteProps<unknown>, keyof BTableSimpleProps>, 0>)
 ) as readonly (keyof Omit<BTableLiteProps<unknown>, keyof BTableSimpleProps>)[]
 
+/**
+ * The edge a sticky column is pinned to, `true` being the leading edge
+ */
+export const getStickyColumnEdge = (
+  field: Readonly<Pick<TableField<unknown>, 'stickyColumn'>>
+): 'start' | 'end' | undefined =>
+  field.stickyColumn === true || field.stickyColumn === 'start'
+    ? 'start'
+    : field.stickyColumn === 'end'
+      ? 'end'
+      : undefined
+
 export const getDataLabelAttr = (
   props: {stacked: boolean | Breakpoint | undefined; labelStacked: boolean | undefined},
   label: string
 ) => (props.stacked && props.labelStacked !== true ? {'data-label': label} : undefined)
+
+/**
+ * @returns `true` when the filter does not filter anything, so the column can be skipped
+ */
+export const isEmptyColumnFilter = (
+  filter: TableColumnFilter<never>
+): filter is null | undefined | '' => filter === undefined || filter === null || filter === ''
+
+const stringifyFilterValue = (value: unknown): string =>
+  value === null || value === undefined
+    ? ''
+    : typeof value === 'object'
+      ? JSON.stringify(Object.values(value))
+      : String(value)
+
+const isWithinRange = (
+  value: unknown,
+  min: TableColumnFilterRangeBound | undefined,
+  max: TableColumnFilterRangeBound | undefined
+) => {
+  // The cell is compared as the type of the bounds, so ISO strings are within a range of dates
+  const sortType: TableFieldSortType | undefined =
+    min instanceof Date || max instanceof Date
+      ? 'date'
+      : typeof min === 'number' || typeof max === 'number'
+        ? 'number'
+        : undefined
+  const comparable =
+    typeof value === 'object' && !(value instanceof Date) ? undefined : toSortValue(value, sortType)
+  if (comparable === undefined) return min === undefined && max === undefined
+  const lower = min === undefined ? undefined : toSortValue(min, sortType)
+  const upper = max === undefined ? undefined : toSortValue(max, sortType)
+  return (
+    (lower === undefined || comparable >= lower) && (upper === undefined || comparable <= upper)
+  )
+}
+
+const isEqualFilterValue = (value: unknown, expected: unknown) =>
+  value instanceof Date && expected instanceof Date
+    ? value.getTime() === expected.getTime()
+    : value === expected
+
+/**
+ * Checks a single value against a column filter
+ *
+ * @param value the value of the cell, which is already formatted when the field uses `filterByFormatted`
+ */
+export const matchesColumnFilter = <T>(
+  filter: TableColumnFilter<T>,
+  value: unknown,
+  item: T
+): boolean => {
+  if (filter === undefined || filter === null || filter === '') return true
+  if (typeof filter === 'function') return filter(value, item)
+  if (typeof filter === 'string')
+    return stringifyFilterValue(value).toLowerCase().includes(filter.toLowerCase())
+  if (typeof filter === 'number' || typeof filter === 'boolean')
+    return isEqualFilterValue(value, filter)
+  if ('operator' in filter) {
+    switch (filter.operator) {
+      case 'contains':
+        return filter.caseSensitive === true
+          ? stringifyFilterValue(value).includes(filter.value)
+          : stringifyFilterValue(value).toLowerCase().includes(filter.value.toLowerCase())
+      case 'equals':
+        return isEqualFilterValue(value, filter.value)
+      case 'range':
+        return isWithinRange(value, filter.min, filter.max)
+      case 'in':
+        return filter.value.some((el) => isEqualFilterValue(value, el))
+    }
+  }
+  return filter.some((el) => isEqualFilterValue(value, el))
+}
+
+/**
+ * Reduces the values of a column. The built in aggregates ignore values that are not numbers,
+ * except `count`, which counts the items
+ */
+export const aggregateValues = <T>(
+  aggregate: TableFieldAggregate<T>,
+  values: unknown[],
+  items: T[]
+): unknown => {
+  if (typeof aggregate === 'function') return aggregate(values, items)
+  if (aggregate === 'count') return items.length
+
+  const numbers = values
+    .filter((value) => value !== null && value !== undefined && value !== '')
+    .map(Number)
+    .filter((value) => !Number.isNaN(value))
+  if (numbers.length === 0) return undefined
+  switch (aggregate) {
+    case 'sum':
+      return numbers.reduce((acc, value) => acc + value, 0)
+    case 'avg':
+      return numbers.reduce((acc, value) => acc + value, 0) / numbers.length
+    case 'min':
+      return numbers.reduce((acc, value) => Math.min(acc, value))
+    case 'max':
+      return numbers.reduce((acc, value) => Math.max(acc, value))
+  }
+}
+
+const toSortNumber = (value: number) => (Number.isNaN(value) ? undefined : value)
+
+/**
+ * Converts a value to the value it is sorted by. Dates, numbers and booleans become numbers, other values
+ * strings. Values that can't be sorted, such as `null` or an invalid date, become `undefined`
+ */
+export const toSortValue = (
+  value: unknown,
+  sortType: TableFieldSortType | undefined
+): number | string | undefined => {
+  if (value === null || value === undefined) return undefined
+  if (sortType === 'number')
+    return typeof value === 'string' && value.trim() === ''
+      ? undefined
+      : toSortNumber(Number(value))
+  if (sortType === 'date')
+    return toSortNumber(
+      (value instanceof Date ? value : new Date(value as string | number)).getTime()
+    )
+  if (sortType === undefined) {
+    if (value instanceof Date) return toSortNumber(value.getTime())
+    if (typeof value === 'number') return toSortNumber(value)
+    if (typeof value === 'boolean') return Number(value)
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+export const compareSortValues = (
+  a: number | string,
+  b: number | string,
+  collator: Intl.Collator
+): number =>
+  typeof a === 'number' && typeof b === 'number' ? a - b : collator.compare(String(a), String(b))
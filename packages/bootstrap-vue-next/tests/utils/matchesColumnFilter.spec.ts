@@ -0,0 +1,72 @@
+import {matchesColumnFilter} from '../../src/utils/tableUtils'
+import {describe, expect, it} from 'vitest'
+
+describe('matchesColumnFilter', () => {
+  const item = {}
+
+  it('does not filter when the filter is empty', () => {
+    expect(matchesColumnFilter(undefined, 'foo', item)).toBe(true)
+    expect(matchesColumnFilter(null, 'foo', item)).toBe(true)
+    expect(matchesColumnFilter('', 'foo', item)).toBe(true)
+  })
+
+  it('uses a case insensitive contains match for strings', () => {
+    expect(matchesColumnFilter('OB', 'Robert', item)).toBe(true)
+    expect(matchesColumnFilter('x', 'Robert', item)).toBe(false)
+    expect(matchesColumnFilter('4', 42, item)).toBe(true)
+  })
+
+  it('uses an equals match for numbers and booleans', () => {
+    expect(matchesColumnFilter(4, 42, item)).toBe(false)
+    expect(matchesColumnFilter(42, 42, item)).toBe(true)
+    expect(matchesColumnFilter(false, false, item)).toBe(true)
+  })
+
+  it('uses an in match for arrays', () => {
+    expect(matchesColumnFilter(['a', 'b'], 'b', item)).toBe(true)
+    expect(matchesColumnFilter(['a', 'b'], 'c', item)).toBe(false)
+  })
+
+  it('calls predicates with the value and item', () => {
+    const predicate = (value: unknown, it: unknown) => value === 1 && it === item
+    expect(matchesColumnFilter(predicate, 1, item)).toBe(true)
+    expect(matchesColumnFilter(predicate, 2, item)).toBe(false)
+  })
+
+  it('supports the contains operator with case sensitivity', () => {
+    expect(matchesColumnFilter({operator: 'contains', value: 'ob'}, 'ROBERT', item)).toBe(true)
+    expect(
+      matchesColumnFilter({operator: 'contains', value: 'ob', caseSensitive: true}, 'ROBERT', item)
+    ).toBe(false)
+  })
+
+  it('supports the equals operator with dates', () => {
+    expect(
+      matchesColumnFilter(
+        {operator: 'equals', value: new Date(2020, 1, 1)},
+        new Date(2020, 1, 1),
+        item
+      )
+    ).toBe(true)
+  })
+
+  it('supports the range operator with inclusive bounds', () => {
+    expect(matchesColumnFilter({operator: 'range', min: 10, max: 20}, 10, item)).toBe(true)
+    expect(matchesColumnFilter({operator: 'range', min: 10, max: 20}, 20, item)).toBe(true)
+    expect(matchesColumnFilter({operator: 'range', min: 10, max: 20}, 21, item)).toBe(false)
+    expect(matchesColumnFilter({operator: 'range', min: 10}, 1000, item)).toBe(true)
+    expect(matchesColumnFilter({operator: 'range', max: 10}, null, item)).toBe(false)
+    expect(
+      matchesColumnFilter(
+        {operator: 'range', min: new Date(2020, 0, 1)},
+        new Date(2021, 0, 1),
+        item
+      )
+    ).toBe(true)
+  })
+
+  it('supports the in operator', () => {
+    expect(matchesColumnFilter({operator: 'in', value: [1, 2]}, 2, item)).toBe(true)
+    expect(matchesColumnFilter({operator: 'in', value: [1, 2]}, '2', item)).toBe(false)
+  })
+})